@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { NoteUnit, UsageEntry, UsageStage } from './types';
+import { ModelPrice, DEFAULT_MODEL_PRICES, USAGE_STAGE_LABELS, formatCost, mergeUsage, totalUsage } from './usage';
+
+interface CostDashboardProps {
+    notes: NoteUnit[];
+    sessionUsage: UsageEntry[];
+    prices: ModelPrice[];
+    onSavePrices: (prices: ModelPrice[]) => void;
+    onClose: () => void;
+}
+
+const PRICE_FIELDS: { key: keyof Omit<ModelPrice, 'model'>; label: string }[] = [
+    { key: 'inputPerMillion', label: '输入 ¥/百万' },
+    { key: 'outputPerMillion', label: '输出 ¥/百万' },
+    { key: 'perImage', label: '¥/张' }
+];
+
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+export const CostDashboard: React.FC<CostDashboardProps> = ({ notes, sessionUsage, prices, onSavePrices, onClose }) => {
+    const [draft, setDraft] = useState<ModelPrice[]>(prices);
+
+    const allUsage = mergeUsage(sessionUsage, ...notes.map(n => n.usage));
+    const totals = totalUsage(allUsage, prices);
+    const stages = (Object.keys(USAGE_STAGE_LABELS) as UsageStage[])
+        .map(stage => ({ stage, totals: totalUsage(allUsage.filter(e => e.stage === stage), prices) }))
+        .filter(s => s.totals.calls > 0);
+
+    // 用过但还没有单价的模型也列出来，方便补填
+    const draftModels = draft.map(p => p.model);
+    const rows = [
+        ...draft,
+        ...allUsage
+            .map(e => e.model)
+            .filter((model, i, models) => !draftModels.includes(model) && models.indexOf(model) === i)
+            .map(model => ({ model, inputPerMillion: 0, outputPerMillion: 0, perImage: 0 }))
+    ];
+    const updatePrice = (model: string, updates: Partial<ModelPrice>) => {
+        setDraft(rows
+            .filter(p => p.model === model || draftModels.includes(p.model))
+            .map(p => p.model === model ? { ...p, ...updates } : p));
+    };
+
+    return (
+        <div className="side-panel-overlay" onClick={onClose}>
+            <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+                <div className="side-panel-header">
+                    <span>💰 用量与费用</span>
+                    <button className="card-action-btn" onClick={onClose}>✕</button>
+                </div>
+
+                <div className="side-panel-body">
+                    <div className="settings-section">
+                        <div className="settings-section-title">当前会话合计：{formatCost(totals.cost)}</div>
+                        <div className="card-meta">
+                            {totals.calls} 次调用 · 输入 {formatTokens(totals.inputTokens)} / 输出 {formatTokens(totals.outputTokens)} token · {totals.images} 张图
+                        </div>
+                        {totals.unpriced.length > 0 && (
+                            <div className="card-meta usage-warning">未设置单价，按 ¥0 计：{totals.unpriced.join('、')}</div>
+                        )}
+                        <div className="card-meta">未返回用量的服务按文本长度估算 token；费用为按单价的估算，以服务商账单为准</div>
+                    </div>
+
+                    <div className="settings-section">
+                        <div className="settings-section-title">按阶段</div>
+                        {stages.length === 0 ? (
+                            <div className="card-meta">还没有模型调用</div>
+                        ) : (
+                            <table className="usage-table">
+                                <thead>
+                                    <tr><th>阶段</th><th>调用</th><th>输入</th><th>输出</th><th>图片</th><th>费用</th></tr>
+                                </thead>
+                                <tbody>
+                                    {stages.map(({ stage, totals }) => (
+                                        <tr key={stage}>
+                                            <td>{USAGE_STAGE_LABELS[stage]}</td>
+                                            <td>{totals.calls}</td>
+                                            <td>{formatTokens(totals.inputTokens)}</td>
+                                            <td>{formatTokens(totals.outputTokens)}</td>
+                                            <td>{totals.images}</td>
+                                            <td>{formatCost(totals.cost)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+
+                    {allUsage.length > 0 && (
+                        <div className="settings-section">
+                            <div className="settings-section-title">按笔记</div>
+                            <table className="usage-table">
+                                <tbody>
+                                    {sessionUsage.length > 0 && (
+                                        <tr>
+                                            <td>会话（拆分等）</td>
+                                            <td>{formatCost(totalUsage(sessionUsage, prices).cost)}</td>
+                                        </tr>
+                                    )}
+                                    {notes.filter(n => n.usage?.length).map(n => (
+                                        <tr key={n.id}>
+                                            <td>#{n.order} {n.structure?.title || n.originalText.slice(0, 16)}</td>
+                                            <td>{formatCost(totalUsage(n.usage!, prices).cost)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    <div className="settings-section">
+                        <div className="settings-section-title">模型单价</div>
+                        <table className="usage-table">
+                            <thead>
+                                <tr><th>模型</th>{PRICE_FIELDS.map(f => <th key={f.key}>{f.label}</th>)}</tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(price => (
+                                    <tr key={price.model}>
+                                        <td>{price.model}</td>
+                                        {PRICE_FIELDS.map(f => (
+                                            <td key={f.key}>
+                                                <input
+                                                    className="settings-input usage-price-input"
+                                                    type="number"
+                                                    min={0}
+                                                    step="any"
+                                                    value={price[f.key]}
+                                                    onChange={(e) => updatePrice(price.model, { [f.key]: Math.max(0, Number(e.target.value) || 0) })}
+                                                />
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="edit-actions">
+                        <button className="btn-cancel" onClick={() => setDraft(DEFAULT_MODEL_PRICES)}>恢复默认</button>
+                        <button className="btn-save" onClick={() => onSavePrices(draft)}>保存单价</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
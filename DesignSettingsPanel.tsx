@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { NoteDesign } from './types';
+import { PALETTE_PRESETS, formatPalette, paletteColors } from './palettes';
+
+interface DesignSettingsPanelProps {
+    title: string;
+    design: Required<NoteDesign>;
+    stylePalette: string;
+    onSave: (design: Required<NoteDesign>) => void;
+    onReset?: () => void;
+    onClose: () => void;
+}
+
+const CUSTOM_NAME = 'Custom palette';
+const MAX_CUSTOM_COLORS = 6;
+
+type PaletteMode = 'style' | 'preset' | 'custom';
+
+const initialMode = (colorTheme: string): PaletteMode => {
+    if (!colorTheme) return 'style';
+    return PALETTE_PRESETS.some(p => formatPalette(p.name, p.colors) === colorTheme) ? 'preset' : 'custom';
+};
+
+const Swatch: React.FC<{ colors: string[] }> = ({ colors }) => (
+    <div className="palette-swatch">
+        {colors.map((c, i) => <span key={i} style={{ background: c }} />)}
+    </div>
+);
+
+export const DesignSettingsPanel: React.FC<DesignSettingsPanelProps> = ({ title, design, stylePalette, onSave, onReset, onClose }) => {
+    const [mode, setMode] = useState<PaletteMode>(() => initialMode(design.colorTheme));
+    const [colorTheme, setColorTheme] = useState(design.colorTheme);
+    const [customColors, setCustomColors] = useState<string[]>(() => {
+        const colors = paletteColors(design.colorTheme);
+        return colors.length > 0 ? colors : ['#6366F1', '#F8C8DC', '#FFF1B5'];
+    });
+    const [watermark, setWatermark] = useState(design.watermark);
+
+    const effectiveTheme = mode === 'custom' ? formatPalette(CUSTOM_NAME, customColors) : mode === 'style' ? '' : colorTheme;
+    const previewColors = paletteColors(effectiveTheme || stylePalette);
+
+    const updateCustomColor = (index: number, color: string) => {
+        setCustomColors(customColors.map((c, i) => i === index ? color : c));
+    };
+
+    return (
+        <div className="side-panel-overlay" onClick={onClose}>
+            <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+                <div className="side-panel-header">
+                    <span>🎨 {title}</span>
+                    <button className="card-action-btn" onClick={onClose}>✕</button>
+                </div>
+
+                <div className="side-panel-body">
+                    <div className="settings-section">
+                        <div className="settings-section-title">配色</div>
+                        <div className="style-grid">
+                            <div
+                                className={`style-chip ${mode === 'style' ? 'active' : ''}`}
+                                onClick={() => setMode('style')}
+                            >
+                                <div style={{ fontSize: '16px' }}>✨</div>
+                                <div style={{ fontSize: '9px', marginTop: '2px' }}>风格默认</div>
+                            </div>
+                            {PALETTE_PRESETS.map(p => {
+                                const value = formatPalette(p.name, p.colors);
+                                return (
+                                    <div
+                                        key={p.id}
+                                        className={`style-chip ${mode === 'preset' && colorTheme === value ? 'active' : ''}`}
+                                        onClick={() => {
+                                            setMode('preset');
+                                            setColorTheme(value);
+                                        }}
+                                    >
+                                        <Swatch colors={p.colors} />
+                                        <div style={{ fontSize: '9px', marginTop: '4px' }}>{p.name}</div>
+                                    </div>
+                                );
+                            })}
+                            <div
+                                className={`style-chip ${mode === 'custom' ? 'active' : ''}`}
+                                onClick={() => setMode('custom')}
+                            >
+                                <div style={{ fontSize: '16px' }}>🖌️</div>
+                                <div style={{ fontSize: '9px', marginTop: '2px' }}>自定义</div>
+                            </div>
+                        </div>
+
+                        {mode === 'custom' && (
+                            <div className="palette-editor">
+                                {customColors.map((c, i) => (
+                                    <div key={i} className="palette-color">
+                                        <input type="color" value={c} onChange={(e) => updateCustomColor(i, e.target.value)} />
+                                        <span className="card-meta">{c.toUpperCase()}</span>
+                                        {customColors.length > 1 && (
+                                            <button
+                                                className="icon-btn delete"
+                                                onClick={() => setCustomColors(customColors.filter((_, j) => j !== i))}
+                                                title="移除颜色"
+                                            >
+                                                ✕
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                                {customColors.length < MAX_CUSTOM_COLORS && (
+                                    <button className="add-module-btn" onClick={() => setCustomColors([...customColors, '#FFFFFF'])}>
+                                        ➕ 添加颜色
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="settings-section">
+                        <label className="settings-field">
+                            水印文字
+                            <input
+                                className="settings-input"
+                                value={watermark}
+                                placeholder="如：@我的公众号"
+                                maxLength={40}
+                                onChange={(e) => setWatermark(e.target.value)}
+                            />
+                        </label>
+                    </div>
+
+                    <div className="settings-section">
+                        <div className="settings-section-title">预览</div>
+                        <div className="design-preview">
+                            {previewColors.length > 0 ? <Swatch colors={previewColors} /> : <div className="card-meta">{stylePalette}</div>}
+                            <div className="design-preview-watermark">{watermark || '（无水印）'}</div>
+                        </div>
+                        <div className="card-meta">{effectiveTheme || `风格默认：${stylePalette}`}</div>
+                    </div>
+
+                    <div className="edit-actions">
+                        {onReset && <button className="btn-cancel" onClick={onReset}>恢复全局设置</button>}
+                        <button className="btn-save" onClick={() => onSave({ colorTheme: effectiveTheme, watermark: watermark.trim() })}>保存</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
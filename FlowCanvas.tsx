@@ -1,17 +1,78 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Stage, NoteUnit, LeftBrainData, ContentModule } from './types';
+import { Stage, NoteUnit, LeftBrainData, ContentModule, NoteImage, RegenerateStage, SourceSpan, OrganizeProgress } from './types';
+import { diffLines } from './textDiff';
+import { withStructure } from './structureHistory';
+import { MODULE_ACTIONS, ModuleActionType, TRANSLATE_LANGUAGES } from './moduleActions';
+import { coverageReport, offsetSpans, segmentText } from './sourceTrace';
+import { CANCELLED_REASON, describeError } from './retryPolicy';
+
+// 拆分确认阶段的单元管理操作
+export interface SplitActions {
+    splitAt: (id: string, position: number) => void;
+    mergeWithNext: (id: string) => void;
+    move: (from: number, to: number) => void;
+    remove: (id: string) => void;
+    add: () => void;
+}
+
+// 结构编辑的撤销 / 重做与版本历史
+export interface StructureActions {
+    edit: (id: string, structure: LeftBrainData) => void;
+    undo: (id: string) => void;
+    redo: (id: string) => void;
+    canUndo: (id: string) => boolean;
+    canRedo: (id: string) => boolean;
+    openVersions: (id: string) => void;
+}
 
 interface FlowCanvasProps {
     notes: NoteUnit[];
     updateNote: (id: string, data: Partial<NoteUnit>) => void;
     rawText: string;
-    regenerateNote: (id: string) => void;
+    regenerateNote: (id: string, from: RegenerateStage) => void;
+    splitActions?: SplitActions;
+    structureActions?: StructureActions;
+    onEditDesign?: (id: string) => void;
+    getTemplatePrompt?: (note: NoteUnit) => string | undefined;
+    runModuleAction?: (note: NoteUnit, action: ModuleActionType, modules: ContentModule[], language?: string) => Promise<ContentModule[]>;
+    organizeProgress?: Record<string, OrganizeProgress>;
 }
 
 // --- Helper Components ---
 
+// 原文片段渲染：聚焦模块的来源高亮，未被任何模块引用的段落标记为未覆盖
+const TracedText: React.FC<{ text: string; highlights: SourceSpan[]; uncovered?: SourceSpan[] }> = ({ text, highlights, uncovered }) => (
+    <>
+        {segmentText(text, highlights, uncovered).map((seg, i) => seg.kind === 'plain'
+            ? <React.Fragment key={i}>{seg.text}</React.Fragment>
+            : <mark key={i} className={`source-${seg.kind}`}>{seg.text}</mark>
+        )}
+    </>
+);
+
+// 流式整理中的结构预览：标题先出现，模块在各自的 JSON 对象完整后逐个出现
+const StreamingStructure: React.FC<{ progress: OrganizeProgress }> = ({ progress }) => (
+    <div className="streaming-structure">
+        <div className="card-meta">
+            {progress.attempt > 1 ? `第 ${progress.attempt} 次请求 · ` : ''}已接收约 {progress.tokens} tokens · 已解析 {progress.modules.length} 个模块
+        </div>
+        {progress.title
+            ? <div className="streaming-title">{progress.title}</div>
+            : <div className="card-placeholder">等待标题...</div>}
+        {progress.modules.map((module, i) => (
+            <div key={module.id} className="module-card streaming-module">
+                <div className="module-index">{i + 1}.</div>
+                <div className="module-content-area">
+                    <div className="streaming-module-heading">{module.heading}</div>
+                    <div className="streaming-module-content">{module.content}</div>
+                </div>
+            </div>
+        ))}
+    </div>
+);
+
 // 1. Original Text Capsule
-const OriginalTextCapsule: React.FC<{ text: string }> = ({ text }) => {
+const OriginalTextCapsule: React.FC<{ text: string; highlights?: SourceSpan[]; uncovered?: SourceSpan[] }> = ({ text, highlights = [], uncovered = [] }) => {
     const [expanded, setExpanded] = useState(false);
 
     return (
@@ -23,13 +84,14 @@ const OriginalTextCapsule: React.FC<{ text: string }> = ({ text }) => {
                 <span className="stage-icon">📄</span>
                 <span>原始文本</span>
                 <span className="text-muted">({text.length} 字)</span>
+                {uncovered.length > 0 && <span className="coverage-warning">{uncovered.length} 段未被笔记引用</span>}
                 <span style={{ fontSize: '10px', marginLeft: '4px' }}>{expanded ? '▼' : '▶'}</span>
             </div>
 
             {expanded && (
                 <div className="original-content-expanded">
                     <p style={{ whiteSpace: 'pre-wrap', lineHeight: 1.6, fontSize: '12px', textAlign: 'left', margin: 0, color: '#a1a1aa' }}>
-                        {text}
+                        <TracedText text={text} highlights={highlights} uncovered={uncovered} />
                     </p>
                 </div>
             )}
@@ -42,9 +104,28 @@ interface BlockEditorProps {
     structure: LeftBrainData;
     onChange: (newStructure: LeftBrainData) => void;
     readOnly?: boolean;
+    onAiAction?: (action: ModuleActionType, modules: ContentModule[], language?: string) => Promise<ContentModule[]>;
+    onFocusModule?: (id: string | null) => void;
 }
 
-const BlockEditor: React.FC<BlockEditorProps> = ({ structure, onChange, readOnly }) => {
+// AI 操作的结果先作为预览展示，采用后才替换对应的模块
+interface ModulePreview {
+    action: ModuleActionType;
+    language?: string;
+    sourceIds: string[];
+    modules: ContentModule[];
+}
+
+const actionLabel = (action: ModuleActionType, language?: string) => {
+    const meta = MODULE_ACTIONS.find(a => a.id === action)!;
+    return `${meta.emoji} ${meta.label}${language ? ` · ${language}` : ''}`;
+};
+
+const BlockEditor: React.FC<BlockEditorProps> = ({ structure, onChange, readOnly, onAiAction, onFocusModule }) => {
+    const [menuId, setMenuId] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [preview, setPreview] = useState<ModulePreview | null>(null);
+
     const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         onChange({ ...structure, title: e.target.value });
     };
@@ -73,6 +154,37 @@ const BlockEditor: React.FC<BlockEditorProps> = ({ structure, onChange, readOnly
         onChange({ ...structure, modules: newModules });
     };
 
+    const runAiAction = async (index: number, action: ModuleActionType, language?: string) => {
+        if (!onAiAction) return;
+        const targets = structure.modules.slice(index, index + (action === 'merge' ? 2 : 1));
+        setMenuId(null);
+        setBusyId(targets[0].id);
+        try {
+            const modules = await onAiAction(action, targets, language);
+            setPreview({ action, language, sourceIds: targets.map(m => m.id), modules });
+        } catch (e: any) {
+            alert(`AI 操作失败：${describeError(e)}`);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const acceptPreview = () => {
+        if (!preview) return;
+        const start = structure.modules.findIndex(m => m.id === preview.sourceIds[0]);
+        const intact = start !== -1 && preview.sourceIds.every((id, i) => structure.modules[start + i]?.id === id);
+        if (!intact) {
+            alert('原模块已被删除或移动，无法应用此预览');
+        } else {
+            const newModules = [...structure.modules];
+            newModules.splice(start, preview.sourceIds.length, ...preview.modules);
+            onChange({ ...structure, modules: newModules });
+        }
+        setPreview(null);
+    };
+
+    const canUseAi = !!onAiAction && !readOnly;
+
     return (
         <div className="block-editor">
             <div className="block-editor-header">
@@ -94,28 +206,80 @@ const BlockEditor: React.FC<BlockEditorProps> = ({ structure, onChange, readOnly
 
             <div className="block-modules-list">
                 {structure.modules.map((module, index) => (
-                    <div key={module.id || index} className="module-card">
-                        <div className="module-index">{index + 1}.</div>
-                        <div className="module-content-area">
-                            <input
-                                className="module-heading-input"
-                                value={module.heading}
-                                onChange={(e) => handleModuleChange(index, 'heading', e.target.value)}
-                                disabled={readOnly}
-                                placeholder="模块标题"
-                            />
-                            <textarea
-                                className="module-body-input"
-                                value={module.content}
-                                onChange={(e) => handleModuleChange(index, 'content', e.target.value)}
-                                disabled={readOnly}
-                                placeholder="模块内容..."
-                            />
-                        </div>
-                        <div className="module-actions">
-                            {!readOnly && <button className="icon-btn delete" onClick={() => deleteModule(index)} title="删除">🗑️</button>}
+                    <React.Fragment key={module.id || index}>
+                        <div
+                            className={`module-card ${preview?.sourceIds.includes(module.id) ? 'ai-source' : ''}`}
+                            onFocus={() => onFocusModule?.(module.id)}
+                            onBlur={() => onFocusModule?.(null)}
+                        >
+                            <div className="module-index">{index + 1}.</div>
+                            <div className="module-content-area">
+                                <input
+                                    className="module-heading-input"
+                                    value={module.heading}
+                                    onChange={(e) => handleModuleChange(index, 'heading', e.target.value)}
+                                    disabled={readOnly}
+                                    placeholder="模块标题"
+                                />
+                                <textarea
+                                    className="module-body-input"
+                                    value={module.content}
+                                    onChange={(e) => handleModuleChange(index, 'content', e.target.value)}
+                                    disabled={readOnly}
+                                    placeholder="模块内容..."
+                                />
+                            </div>
+                            <div className="module-actions">
+                                {canUseAi && (
+                                    <button
+                                        className="icon-btn"
+                                        onClick={() => setMenuId(menuId === module.id ? null : module.id)}
+                                        disabled={!!busyId || !!preview}
+                                        title="AI 改写"
+                                    >
+                                        {busyId === module.id ? '⏳' : '✨'}
+                                    </button>
+                                )}
+                                {!readOnly && <button className="icon-btn delete" onClick={() => deleteModule(index)} title="删除">🗑️</button>}
+                            </div>
                         </div>
-                    </div>
+
+                        {canUseAi && menuId === module.id && (
+                            <div className="module-ai-menu">
+                                {MODULE_ACTIONS.flatMap(a => {
+                                    if (a.id === 'translate') {
+                                        return TRANSLATE_LANGUAGES.map(lang => (
+                                            <button key={`${a.id}-${lang}`} className="card-action-btn" onClick={() => runAiAction(index, a.id, lang)}>
+                                                {a.emoji} {lang}
+                                            </button>
+                                        ));
+                                    }
+                                    if (a.id === 'merge' && index === structure.modules.length - 1) return [];
+                                    return [(
+                                        <button key={a.id} className="card-action-btn" onClick={() => runAiAction(index, a.id)}>
+                                            {a.emoji} {a.label}
+                                        </button>
+                                    )];
+                                })}
+                            </div>
+                        )}
+
+                        {preview && preview.sourceIds[preview.sourceIds.length - 1] === module.id && (
+                            <div className="module-ai-preview">
+                                <div className="settings-section-title">预览：{actionLabel(preview.action, preview.language)}</div>
+                                {preview.modules.map(m => (
+                                    <div key={m.id} className="module-ai-preview-item">
+                                        <div className="module-ai-preview-heading">{m.heading}</div>
+                                        <div className="module-ai-preview-content">{m.content}</div>
+                                    </div>
+                                ))}
+                                <div className="edit-actions">
+                                    <button className="btn-cancel" onClick={() => setPreview(null)}>✕ 放弃</button>
+                                    <button className="btn-save" onClick={acceptPreview}>✓ 采用</button>
+                                </div>
+                            </div>
+                        )}
+                    </React.Fragment>
                 ))}
                 {!readOnly && (
                     <button className="add-module-btn" onClick={addModule}>
@@ -150,30 +314,89 @@ const MagicPrompt: React.FC<{ isProcessing: boolean; isCompleted: boolean }> = (
     return <div className="card-placeholder">等待生成...</div>;
 };
 
+// 4. Prompt Diff (template -> current prompt)
+const PromptDiff: React.FC<{ template: string; prompt: string }> = ({ template, prompt }) => {
+    const lines = diffLines(template, prompt);
+    if (lines.every(l => l.type === 'same')) {
+        return <div className="card-placeholder">与模板一致，没有手动修改</div>;
+    }
+    return (
+        <pre className="prompt-diff">
+            {lines.map((line, i) => (
+                <div key={i} className={`diff-line diff-${line.type}`}>
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                </div>
+            ))}
+        </pre>
+    );
+};
+
 // --- Main Card Component ---
 
+// 片段卡片拖动排序时携带的数据类型
+const NOTE_INDEX_TYPE = 'text/x-note-index';
+
+// 文字识别得分 / 原文覆盖率分档：≥90% 良好，≥70% 需留意，其余需要处理
+const scoreLevel = (score: number) => score >= 0.9 ? 'good' : score >= 0.7 ? 'warning' : 'bad';
+
 interface EditableCardProps {
     type: 'split' | 'structure' | 'prompt' | 'image';
     note: NoteUnit;
     index: number;
     onEdit: (field: string, value: any) => void;
     isActive: boolean;
-    onRegenerate?: (id: string) => void;
+    onRegenerate?: (id: string, from: RegenerateStage) => void;
+    splitActions?: SplitActions;
+    structureActions?: StructureActions;
+    runModuleAction?: FlowCanvasProps['runModuleAction'];
+    focusedSpans?: SourceSpan[];
+    onFocusModule?: (id: string | null) => void;
+    isLast?: boolean;
+    onEditDesign?: (id: string) => void;
+    templatePrompt?: string;
+    onResetPrompt?: () => void;
+    onSelectImage?: (image: NoteImage) => void;
+    streaming?: OrganizeProgress;
 }
 
-const EditableCard: React.FC<EditableCardProps> = ({ type, note, index, onEdit, isActive, onRegenerate }) => {
+const EditableCard: React.FC<EditableCardProps> = ({ type, note, index, onEdit, isActive, onRegenerate, splitActions, structureActions, runModuleAction, focusedSpans, onFocusModule, isLast, onEditDesign, templatePrompt, onResetPrompt, onSelectImage, streaming }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [editValue, setEditValue] = useState('');
+    const [showDiff, setShowDiff] = useState(false);
+    const [isDragOver, setIsDragOver] = useState(false);
+    const [previewImageId, setPreviewImageId] = useState<string | null>(null);
+
+    // 重新绘制或改选成图后回到成图预览
+    useEffect(() => {
+        setPreviewImageId(null);
+    }, [note.finalImage]);
+    const splitTextRef = useRef<HTMLTextAreaElement>(null);
 
     const isProcessing =
         type === 'prompt'
             ? note.isProcessing || (!!note.structure && !note.generatedPrompt && note.stage >= Stage.Designing)
             : note.isProcessing;
+    // 原文覆盖情况（整理结果带来源信息时才有）
+    const coverage = note.structure ? coverageReport(note.originalText, note.structure.modules) : null;
+
     const isCompleted = type === 'split' ? !!note.structure :
         type === 'structure' ? !!note.generatedPrompt :
             type === 'prompt' ? !!note.generatedPrompt :
                 !!note.finalImage;
 
+    // 出错（或被取消）的阶段在对应卡片上显示徽标、原因和单独重试
+    const cardStage: RegenerateStage | null = type === 'structure' ? 'organize' : type === 'prompt' ? 'design' : type === 'image' ? 'paint' : null;
+    const failed = !!cardStage && !note.isProcessing && !!note.error && note.errorStage === cardStage;
+    const errorBadge = failed && (
+        <>
+            <span className="status-badge error" title={note.error}>{note.error === CANCELLED_REASON ? '已取消' : '失败'}</span>
+            {onRegenerate && (
+                <button className="icon-btn" onClick={() => onRegenerate(note.id, cardStage!)} title="只重试出错的这一步">🔁</button>
+            )}
+        </>
+    );
+    const errorMessage = failed && <div className="card-error">⚠️ {note.error}</div>;
+
     // Auto-expand logic for Split Text
     useEffect(() => {
         if (type === 'split' && !isEditing) {
@@ -188,7 +411,7 @@ const EditableCard: React.FC<EditableCardProps> = ({ type, note, index, onEdit,
         onEdit('originalText', e.target.value);
     };
 
-    const cardClass = `flow-card ${isActive ? 'focus-active' : 'focus-dimmed'}`;
+    const cardClass = `flow-card ${isActive ? 'focus-active' : 'focus-dimmed'}${failed ? ' failed' : ''}`;
     const locked =
         type === 'split'
             ? note.stage > Stage.ReviewSplit
@@ -198,24 +421,84 @@ const EditableCard: React.FC<EditableCardProps> = ({ type, note, index, onEdit,
                     ? note.stage >= Stage.Painting
                     : note.stage >= Stage.Done;
 
+    // 单个笔记的配色 / 水印入口（结构卡与指令卡共用）
+    const designButton = onEditDesign && note.structure && !note.isProcessing && (
+        <button
+            className="icon-btn"
+            onClick={() => onEditDesign(note.id)}
+            title={note.design ? '配色与水印（已单独设置）' : '配色与水印'}
+        >
+            {note.design ? '🌈' : '🎨'}
+        </button>
+    );
+
     // 1. Split Text Card
     if (type === 'split') {
+        const canManage = !locked && !!splitActions;
+
+        const handleSplitAtCursor = () => {
+            const position = splitTextRef.current?.selectionStart ?? 0;
+            splitActions?.splitAt(note.id, position);
+        };
+
+        // 只接受片段卡片之间的拖动；拖入的文本、文件等不处理
+        const isNoteDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(NOTE_INDEX_TYPE);
+
+        const dropHandlers = canManage ? {
+            onDragOver: (e: React.DragEvent) => {
+                if (!isNoteDrag(e)) return;
+                e.preventDefault();
+                setIsDragOver(true);
+            },
+            onDragLeave: () => setIsDragOver(false),
+            onDrop: (e: React.DragEvent) => {
+                setIsDragOver(false);
+                if (!isNoteDrag(e)) return;
+                e.preventDefault();
+                const raw = e.dataTransfer.getData(NOTE_INDEX_TYPE);
+                const from = Number(raw);
+                if (raw !== '' && Number.isInteger(from)) splitActions!.move(from, index);
+            }
+        } : {};
+
         return (
-            <div className={cardClass} id={`card-split-${index}`}>
-                <div className="flow-card-header">
+            <div className={`${cardClass} ${isDragOver ? 'drag-over' : ''}`} id={`card-split-${index}`} {...dropHandlers}>
+                <div
+                    className="flow-card-header"
+                    draggable={canManage}
+                    onDragStart={(e) => e.dataTransfer.setData(NOTE_INDEX_TYPE, String(index))}
+                    style={canManage ? { cursor: 'grab' } : undefined}
+                >
                     <div className="flow-card-title">
+                        {canManage && <span className="drag-handle" title="拖动排序">⠿</span>}
                         <span className="card-icon">📝</span>
                         <span>片段 #{index + 1}</span>
+                        <span className="text-muted">({note.originalText.length} 字)</span>
                     </div>
+                    {canManage && (
+                        <div className="flow-card-actions">
+                            <button className="icon-btn" onClick={handleSplitAtCursor} title="在光标处拆分">✂️</button>
+                            {!isLast && <button className="icon-btn" onClick={() => splitActions!.mergeWithNext(note.id)} title="与下一个片段合并">🔗</button>}
+                            <button className="icon-btn delete" onClick={() => splitActions!.remove(note.id)} title="删除片段">🗑️</button>
+                        </div>
+                    )}
                 </div>
                 <div className="flow-card-content">
-                    <textarea
-                        className="card-textarea"
-                        style={{ minHeight: '120px', background: 'transparent', border: 'none', resize: 'vertical' }}
-                        value={note.originalText}
-                        onChange={handleSplitTextChange}
-                        disabled={locked}
-                    />
+                    {locked && (coverage || focusedSpans?.length) ? (
+                        <div className="card-textarea source-text">
+                            <TracedText text={note.originalText} highlights={focusedSpans || []} uncovered={coverage?.uncovered} />
+                        </div>
+                    ) : (
+                        <textarea
+                            ref={splitTextRef}
+                            className="card-textarea"
+                            style={{ minHeight: '120px', background: 'transparent', border: 'none', resize: 'vertical' }}
+                            value={note.originalText}
+                            onChange={handleSplitTextChange}
+                            disabled={locked}
+                            placeholder="在此输入片段内容..."
+                        />
+                    )}
                 </div>
             </div>
         );
@@ -223,25 +506,103 @@ const EditableCard: React.FC<EditableCardProps> = ({ type, note, index, onEdit,
 
     // 2. Structure Card
     if (type === 'structure') {
+        const canEditHistory = !!structureActions && !!note.structure && !locked && !note.isProcessing;
+
+        // 卡片内 Ctrl/Cmd+Z 撤销，Ctrl/Cmd+Shift+Z 或 Ctrl/Cmd+Y 重做
+        const handleKeyDown = (e: React.KeyboardEvent) => {
+            if (!canEditHistory || !(e.ctrlKey || e.metaKey)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                structureActions!.undo(note.id);
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                structureActions!.redo(note.id);
+            }
+        };
+
         return (
-            <div className={cardClass} id={`card-structure-${index}`}>
+            <div className={cardClass} id={`card-structure-${index}`} onKeyDown={handleKeyDown}>
                 <div className="flow-card-header">
                     <div className="flow-card-title">
                         <span className="card-icon">🧠</span>
                         <span>结构 #{index + 1}</span>
                     </div>
                     <div className="flow-card-actions">
+                        {canEditHistory && (
+                            <>
+                                <button
+                                    className="icon-btn"
+                                    onClick={() => structureActions!.undo(note.id)}
+                                    disabled={!structureActions!.canUndo(note.id)}
+                                    title="撤销 (Ctrl+Z)"
+                                >
+                                    ↶
+                                </button>
+                                <button
+                                    className="icon-btn"
+                                    onClick={() => structureActions!.redo(note.id)}
+                                    disabled={!structureActions!.canRedo(note.id)}
+                                    title="重做 (Ctrl+Shift+Z)"
+                                >
+                                    ↷
+                                </button>
+                            </>
+                        )}
+                        {coverage && (
+                            <span
+                                className={`status-badge fidelity ${scoreLevel(coverage.ratio)}`}
+                                title={`${coverage.paragraphs.length - coverage.uncovered.length}/${coverage.paragraphs.length} 段原文被模块引用`}
+                            >
+                                覆盖 {Math.round(coverage.ratio * 100)}%
+                            </span>
+                        )}
+                        {structureActions && note.structure && !note.isProcessing && (
+                            <button className="icon-btn" onClick={() => structureActions.openVersions(note.id)} title="版本历史与对比">
+                                🕘{note.structureVersions?.length ? <span className="card-meta"> {note.structureVersions.length}</span> : null}
+                            </button>
+                        )}
+                        {designButton}
+                        {onRegenerate && note.structure && !note.isProcessing && (
+                            <button
+                                className="icon-btn"
+                                onClick={() => onRegenerate(note.id, 'organize')}
+                                title="重新整理：只替换结构，指令与成图保留并标记为过期"
+                            >
+                                🔄
+                            </button>
+                        )}
                         {isProcessing && <span className="status-badge processing">分析中</span>}
-                        {isCompleted && <span className="status-badge completed">✓</span>}
+                        {errorBadge}
+                        {isCompleted && !failed && <span className="status-badge completed">✓</span>}
                     </div>
                 </div>
                 <div className="flow-card-content">
-                    {note.structure ? (
-                        <BlockEditor
-                            structure={note.structure}
-                            onChange={(newStructure) => onEdit('structure', newStructure)}
-                            readOnly={locked}
-                        />
+                    {streaming && note.isProcessing ? (
+                        <StreamingStructure progress={streaming} />
+                    ) : note.structure ? (
+                        <>
+                            {errorMessage}
+                            <BlockEditor
+                                structure={note.structure}
+                                onChange={(newStructure) => onEdit('structure', newStructure)}
+                                readOnly={locked}
+                                onAiAction={runModuleAction && ((action, modules, language) => runModuleAction(note, action, modules, language))}
+                                onFocusModule={onFocusModule}
+                            />
+                            {coverage && coverage.uncovered.length > 0 && (
+                                <details className="coverage-report">
+                                    <summary>⚠️ {coverage.uncovered.length} 段原文未被任何模块引用</summary>
+                                    {coverage.uncovered.map(span => (
+                                        <div key={span.start} className="coverage-report-item">
+                                            {note.originalText.slice(span.start, Math.min(span.end, span.start + 80))}{span.end - span.start > 80 ? '…' : ''}
+                                        </div>
+                                    ))}
+                                </details>
+                            )}
+                        </>
+                    ) : note.error && !isProcessing ? (
+                        <div className="card-error">⚠️ {note.error}</div>
                     ) : (
                         <div className="card-placeholder">等待处理...</div>
                     )}
@@ -252,59 +613,198 @@ const EditableCard: React.FC<EditableCardProps> = ({ type, note, index, onEdit,
 
     // 3. Prompt Card
     if (type === 'prompt') {
+        const isModified = !!note.generatedPrompt && templatePrompt !== undefined && note.generatedPrompt !== templatePrompt;
+        const renderMode = note.renderMode || 'ai';
+
+        const startEditing = () => {
+            setEditValue(note.generatedPrompt || '');
+            setShowDiff(false);
+            setIsEditing(true);
+        };
+
+        const saveEdit = () => {
+            if (editValue.trim() && editValue !== note.generatedPrompt) onEdit('generatedPrompt', editValue);
+            setIsEditing(false);
+        };
+
         return (
             <div className={cardClass} id={`card-prompt-${index}`}>
                 <div className="flow-card-header">
                     <div className="flow-card-title">
                         <span className="card-icon">🎨</span>
                         <span>绘图指令</span>
+                        {note.promptEdited && <span className="status-badge">已修改</span>}
+                        {note.promptStale && !isProcessing && <span className="status-badge stale" title="结构已变化，可点击 🔄 重新设计">待更新</span>}
+                    </div>
+                    <div className="flow-card-actions">
+                        {note.generatedPrompt && (
+                            <div className="render-mode-toggle" title="绘制方式">
+                                <button
+                                    className={renderMode === 'ai' ? 'active' : ''}
+                                    onClick={() => onEdit('renderMode', 'ai')}
+                                    disabled={locked}
+                                >
+                                    🤖 AI
+                                </button>
+                                <button
+                                    className={renderMode === 'local' ? 'active' : ''}
+                                    onClick={() => onEdit('renderMode', 'local')}
+                                    disabled={locked}
+                                    title="本地排版：直接使用笔记结构生成，文字精确，不使用下方指令"
+                                >
+                                    📐 本地
+                                </button>
+                                <button
+                                    className={renderMode === 'hybrid' ? 'active' : ''}
+                                    onClick={() => onEdit('renderMode', 'hybrid')}
+                                    disabled={locked}
+                                    title="混合：AI 绘制无文字插画底图，再叠加本地排版的文字"
+                                >
+                                    🧩 混合
+                                </button>
+                            </div>
+                        )}
+                        {designButton}
+                        {note.generatedPrompt && !isEditing && !locked && renderMode === 'ai' && (
+                            <button className="icon-btn" onClick={startEditing} title="编辑指令">✏️</button>
+                        )}
+                        {note.generatedPrompt && !isEditing && templatePrompt !== undefined && (
+                            <button className="icon-btn" onClick={() => setShowDiff(!showDiff)} title="与模板对比">🔍</button>
+                        )}
+                        {isModified && !isEditing && !locked && onResetPrompt && (
+                            <button className="icon-btn" onClick={onResetPrompt} title="恢复为模板生成的指令">↺</button>
+                        )}
+                        {onRegenerate && note.structure && !isEditing && !note.isProcessing && (
+                            <button
+                                className="icon-btn"
+                                onClick={() => {
+                                    if (note.promptEdited && !window.confirm('重新设计会覆盖手动修改的指令，确定继续吗？')) return;
+                                    onRegenerate(note.id, 'design');
+                                }}
+                                title="重新设计：按当前结构与设置重建指令，成图保留并标记为过期"
+                            >
+                                🔄
+                            </button>
+                        )}
+                        {errorBadge}
                     </div>
                 </div>
                 <div className="flow-card-content">
-                    <MagicPrompt isProcessing={isProcessing} isCompleted={!!note.generatedPrompt} />
+                    {errorMessage}
+                    {renderMode === 'local' && !isEditing && (
+                        <div className="card-meta" style={{ marginBottom: '6px' }}>📐 本地排版：按笔记结构直接生成图片，以下指令仅在 AI 绘制时使用</div>
+                    )}
+                    {renderMode === 'hybrid' && !isEditing && (
+                        <div className="card-meta" style={{ marginBottom: '6px' }}>🧩 混合模式：AI 只绘制无文字底图，文字按笔记结构本地叠加，以下指令仅在 AI 绘制时使用</div>
+                    )}
+                    {isEditing ? (
+                        <>
+                            <textarea
+                                className="card-textarea prompt-editor"
+                                style={{ minHeight: '240px' }}
+                                value={editValue}
+                                onChange={(e) => setEditValue(e.target.value)}
+                                autoFocus
+                            />
+                            <div className="edit-actions" style={{ marginTop: '8px' }}>
+                                <button className="btn-cancel" onClick={() => setIsEditing(false)}>取消</button>
+                                <button className="btn-save" onClick={saveEdit} disabled={!editValue.trim()}>保存</button>
+                            </div>
+                        </>
+                    ) : showDiff && note.generatedPrompt && templatePrompt !== undefined ? (
+                        <PromptDiff template={templatePrompt} prompt={note.generatedPrompt} />
+                    ) : note.generatedPrompt ? (
+                        <pre className="prompt-preview">{note.generatedPrompt}</pre>
+                    ) : (
+                        <MagicPrompt isProcessing={isProcessing} isCompleted={false} />
+                    )}
                 </div>
             </div>
         );
     }
 
     // 4. Image Card
-if (type === 'image') {
-    return (
-        <div className={cardClass} id={`card-image-${index}`}>
-            <div className="flow-card-header">
-                <div className="flow-card-title">
+    if (type === 'image') {
+        const history = note.images || [];
+        // 画廊中点选的图片只用于预览，⭐ 才会设为成图
+        const shownImage = history.find(img => img.id === previewImageId)?.dataUri || note.finalImage;
+        const shownIndex = history.findIndex(img => img.dataUri === shownImage);
+        return (
+            <div className={cardClass} id={`card-image-${index}`}>
+                <div className="flow-card-header">
+                    <div className="flow-card-title">
                         <span className="card-icon">🖼️</span>
                         <span>视觉笔记</span>
                     </div>
                     <div className="flow-card-actions">
                         {isProcessing && <span className="status-badge processing">绘制中</span>}
-                        {isCompleted && <span className="status-badge completed">✓</span>}
+                        {note.imageStale && !isProcessing && <span className="status-badge stale" title="结构或指令已变化，可重新绘制">待更新</span>}
+                        {!isProcessing && note.fidelity && (
+                            <span
+                                className={`status-badge fidelity ${scoreLevel(note.fidelity.score)}`}
+                                title={note.fidelity.missing.length > 0
+                                    ? `未识别到：${note.fidelity.missing.join('、')}（第 ${note.fidelity.attempts} 轮绘制）`
+                                    : `文字全部识别（第 ${note.fidelity.attempts} 轮绘制）`}
+                            >
+                                文字 {Math.round(note.fidelity.score * 100)}%
+                            </span>
+                        )}
+                        {errorBadge}
+                        {isCompleted && !failed && <span className="status-badge completed">✓</span>}
                     </div>
                 </div>
-            <div className="flow-card-content">
-                {note.finalImage ? (
-                    <>
-                        <img src={note.finalImage} alt={`视觉笔记 ${index + 1}`} className="result-image" />
-                        <a
-                                href={note.finalImage}
-                                download={`visual-note-${index + 1}.png`}
-                            className="download-btn"
-                        >
-                            ⬇️ 下载图片
-                        </a>
-                        <button
-                            className="download-btn"
-                            style={{ marginTop: '8px' }}
-                            onClick={() => onRegenerate && onRegenerate(note.id)}
-                            disabled={note.isProcessing}
-                        >
-                            🔄 重新生成
-                        </button>
-                    </>
-                ) : (
-                    <div className="image-placeholder">
-                        <span className="placeholder-icon">🖼️</span>
-                        <p className="card-placeholder">等待绘制...</p>
+                <div className="flow-card-content">
+                    {shownImage ? (
+                        <>
+                            {errorMessage}
+                            <img src={shownImage} alt={`视觉笔记 ${index + 1}`} className="result-image" />
+                            {history.length > 1 && (
+                                <div className="candidate-gallery">
+                                    {history.map((img, i) => (
+                                        <div
+                                            key={img.id}
+                                            className={`candidate-thumb ${img.dataUri === shownImage ? 'active' : ''}`}
+                                            onClick={() => setPreviewImageId(img.id)}
+                                            title={img.fidelity ? `文字 ${Math.round(img.fidelity.score * 100)}%` : `候选 ${i + 1}`}
+                                        >
+                                            <img src={img.dataUri} alt={`候选 ${i + 1}`} />
+                                            <button
+                                                className={`candidate-star ${img.dataUri === note.finalImage ? 'selected' : ''}`}
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onSelectImage?.(img);
+                                                }}
+                                                title={img.dataUri === note.finalImage ? '当前成图' : '设为成图'}
+                                            >
+                                                {img.dataUri === note.finalImage ? '★' : '☆'}
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <a
+                                href={shownImage}
+                                download={shownImage === note.finalImage || shownIndex === -1
+                                    ? `visual-note-${index + 1}.png`
+                                    : `visual-note-${index + 1}-candidate-${shownIndex + 1}.png`}
+                                className="download-btn"
+                            >
+                                ⬇️ {shownImage === note.finalImage ? '下载图片' : '下载此候选'}
+                            </a>
+                            <button
+                                className="download-btn"
+                                style={{ marginTop: '8px' }}
+                                onClick={() => onRegenerate && onRegenerate(note.id, 'paint')}
+                                disabled={note.isProcessing}
+                                title="沿用当前指令重新绘制，新图追加到历史"
+                            >
+                                🔄 重新绘制
+                            </button>
+                        </>
+                    ) : (
+                        <div className="image-placeholder">
+                            <span className="placeholder-icon">🖼️</span>
+                            {errorMessage || <p className="card-placeholder">等待绘制...</p>}
                         </div>
                     )}
                 </div>
@@ -317,7 +817,7 @@ if (type === 'image') {
 
 // --- Main Canvas ---
 
-export const FlowCanvas: React.FC<FlowCanvasProps> = ({ notes, updateNote, rawText, regenerateNote }) => {
+export const FlowCanvas: React.FC<FlowCanvasProps> = ({ notes, updateNote, rawText, regenerateNote, splitActions, structureActions, onEditDesign, getTemplatePrompt, runModuleAction, organizeProgress }) => {
     const scrollContainerRef = useRef<HTMLDivElement>(null);
 
     // Determine active stage/card for auto-focus
@@ -362,10 +862,25 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({ notes, updateNote, rawTe
         }
     }, [activeInfo.index, activeInfo.type, notes]); // Depend on notes to trigger on updates
 
+    // 结构卡中聚焦的模块，其来源段落在拆分卡与原始文本中高亮
+    const [focusedModule, setFocusedModule] = useState<{ noteId: string; moduleId: string } | null>(null);
+    const focusedSpansOf = (note: NoteUnit): SourceSpan[] =>
+        focusedModule?.noteId === note.id
+            ? note.structure?.modules.find(m => m.id === focusedModule.moduleId)?.sources || []
+            : [];
+
+    // 各笔记的区间平移到整篇原文中显示
+    const rawHighlights = notes.flatMap(n => offsetSpans(focusedSpansOf(n), rawText.indexOf(n.originalText)));
+    const rawUncovered = notes.flatMap(n => {
+        const coverage = n.structure ? coverageReport(n.originalText, n.structure.modules) : null;
+        return coverage ? offsetSpans(coverage.uncovered, rawText.indexOf(n.originalText)) : [];
+    });
+
     const hasAnyNotes = notes.length > 0;
-    const hasStructures = notes.some(n => n.structure);
+    const hasStructures = notes.some(n => n.structure || n.error || organizeProgress?.[n.id]);
     const hasPrompts = notes.some(n => n.generatedPrompt);
-    const hasImages = notes.some(n => n.finalImage);
+    // 绘制中或绘制失败时也显示，失败原因和重试按钮在图片卡片上
+    const hasImages = notes.some(n => n.finalImage || n.errorStage === 'paint' || (n.isProcessing && n.stage === Stage.Painting));
 
     return (
         <div className="flow-canvas-vertical" ref={scrollContainerRef}>
@@ -373,7 +888,7 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({ notes, updateNote, rawTe
             {rawText && (
                 <div className="horizontal-scroll-stage">
                     <div className="stage-box-original">
-                        <OriginalTextCapsule text={rawText} />
+                        <OriginalTextCapsule text={rawText} highlights={rawHighlights} uncovered={rawUncovered} />
                     </div>
                 </div>
             )}
@@ -395,8 +910,16 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({ notes, updateNote, rawTe
                                 index={index}
                                 onEdit={(field, value) => updateNote(note.id, { [field]: value })}
                                 isActive={activeInfo.type === 'split' && activeInfo.index === index}
+                                splitActions={splitActions}
+                                focusedSpans={focusedSpansOf(note)}
+                                isLast={index === notes.length - 1}
                             />
                             ))}
+                            {splitActions && notes.every(n => n.stage <= Stage.ReviewSplit) && (
+                                <button className="add-module-btn add-unit-btn" onClick={splitActions.add}>
+                                    <span>➕ 新增片段</span>
+                                </button>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -417,8 +940,16 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({ notes, updateNote, rawTe
                                 type="structure"
                                 note={note}
                                 index={index}
-                                onEdit={(field, value) => updateNote(note.id, { [field]: value })}
+                                onEdit={(_, value) => structureActions
+                                    ? structureActions.edit(note.id, value)
+                                    : updateNote(note.id, withStructure(note, value))}
                                 isActive={activeInfo.type === 'structure' && activeInfo.index === index}
+                                structureActions={structureActions}
+                                runModuleAction={runModuleAction}
+                                onFocusModule={(moduleId) => setFocusedModule(moduleId ? { noteId: note.id, moduleId } : null)}
+                                onEditDesign={onEditDesign}
+                                onRegenerate={regenerateNote}
+                                streaming={organizeProgress?.[note.id]}
                             />
                             ))}
                         </div>
@@ -441,8 +972,18 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({ notes, updateNote, rawTe
                                 type="prompt"
                                 note={note}
                                 index={index}
-                                onEdit={(field, value) => updateNote(note.id, { [field]: value })}
+                                onEdit={(field, value) => updateNote(note.id, {
+                                    ...(field === 'generatedPrompt' ? { generatedPrompt: value, promptEdited: true, promptStale: false } : { [field]: value }),
+                                    ...(note.finalImage ? { imageStale: true } : {})
+                                })}
                                 isActive={activeInfo.type === 'prompt' && activeInfo.index === index}
+                                onEditDesign={onEditDesign}
+                                onRegenerate={regenerateNote}
+                                templatePrompt={getTemplatePrompt?.(note)}
+                                onResetPrompt={() => {
+                                    const template = getTemplatePrompt?.(note);
+                                    if (template) updateNote(note.id, { generatedPrompt: template, promptEdited: false, promptStale: false, ...(note.finalImage ? { imageStale: true } : {}) });
+                                }}
                             />
                             ))}
                         </div>
@@ -468,6 +1009,7 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({ notes, updateNote, rawTe
                                 onEdit={() => { }}
                                 isActive={activeInfo.type === 'image' && activeInfo.index === index}
                                 onRegenerate={regenerateNote}
+                                onSelectImage={(image) => updateNote(note.id, { finalImage: image.dataUri, fidelity: image.fidelity })}
                             />
                             ))}
                         </div>
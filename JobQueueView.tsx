@@ -0,0 +1,91 @@
+import React from 'react';
+import { NoteUnit } from './types';
+import { Job, JobStatus, QueueState, MAX_CONCURRENCY } from './jobQueue';
+
+interface JobQueueViewProps {
+    queue: QueueState;
+    notes: NoteUnit[];
+    onCancel: (jobId: string) => void;
+    onCancelAll: () => void;
+    onPause: () => void;
+    onResume: () => void;
+    onConcurrencyChange: (concurrency: number) => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+    queued: '排队中',
+    running: '进行中',
+    done: '已完成',
+    failed: '失败',
+    cancelled: '已取消'
+};
+
+const KIND_LABELS: Record<Job['kind'], string> = {
+    organize: '整理',
+    design: '设计',
+    paint: '绘制'
+};
+
+const isActive = (job: Job) => job.status === 'queued' || job.status === 'running';
+
+export const JobQueueView: React.FC<JobQueueViewProps> = ({ queue, notes, onCancel, onCancelAll, onPause, onResume, onConcurrencyChange }) => {
+    const { jobs, paused, concurrency } = queue;
+    const count = (status: JobStatus) => jobs.filter(j => j.status === status).length;
+    const settled = jobs.filter(j => !isActive(j)).length;
+    const hasActive = jobs.some(isActive);
+
+    const noteLabel = (noteId: string) => {
+        const index = notes.findIndex(n => n.id === noteId);
+        if (index < 0) return '（已删除）';
+        const note = notes[index];
+        return `#${index + 1} ${note.structure?.title || note.originalText.slice(0, 16)}`;
+    };
+
+    return (
+        <div className="job-queue">
+            <div className="job-queue-header">
+                <span>
+                    {paused ? '⏸ 已暂停' : '批量处理进度'}：{settled}/{jobs.length}
+                </span>
+                <span className="card-meta">
+                    排队 {count('queued')} · 进行 {count('running')} · 失败 {count('failed')} · 完成 {count('done')}
+                </span>
+            </div>
+            <div className="job-queue-bar">
+                <div style={{ width: `${jobs.length ? (settled / jobs.length) * 100 : 0}%` }} />
+            </div>
+
+            <div className="job-queue-controls">
+                <label className="card-meta">
+                    并发
+                    <select
+                        className="settings-input regenerate-select"
+                        value={concurrency}
+                        onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+                    >
+                        {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                            <option key={n} value={n}>{n}</option>
+                        ))}
+                    </select>
+                </label>
+                <button className="card-action-btn" onClick={paused ? onResume : onPause} disabled={!hasActive}>
+                    {paused ? '▶ 继续' : '⏸ 暂停'}
+                </button>
+                <button className="card-action-btn" onClick={onCancelAll} disabled={!hasActive}>⏹ 全部取消</button>
+            </div>
+
+            <div className="job-queue-list">
+                {jobs.map(job => (
+                    <div key={job.id} className="job-queue-item" title={job.error}>
+                        <span className="job-queue-kind">{KIND_LABELS[job.kind]}</span>
+                        <span className="job-queue-note">{noteLabel(job.noteId)}</span>
+                        <span className={`status-badge job-${job.status}`}>{STATUS_LABELS[job.status]}</span>
+                        {isActive(job) && (
+                            <button className="icon-btn" onClick={() => onCancel(job.id)} title="取消">✕</button>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { ProviderConfig, ProviderSettings, ProviderType, DEFAULT_PROVIDER_SETTINGS, MOCK_PROVIDER_CONFIG, TEXT_MODEL, IMAGE_MODEL } from './providers';
+
+interface ProviderSettingsPanelProps {
+    settings: ProviderSettings;
+    onSave: (settings: ProviderSettings) => void;
+    onClose: () => void;
+}
+
+const PROVIDER_OPTIONS: { value: ProviderType; label: string }[] = [
+    { value: 'gemini', label: 'Google Gemini' },
+    { value: 'openai', label: 'OpenAI 兼容接口 (自托管)' },
+    { value: 'mock', label: '离线模拟 (开发/演示)' }
+];
+
+// 单个能力（文本 / 图像）的服务配置
+const ProviderConfigForm: React.FC<{
+    title: string;
+    config: ProviderConfig;
+    geminiModel: string;
+    modelPlaceholder: string;
+    onChange: (config: ProviderConfig) => void;
+}> = ({ title, config, geminiModel, modelPlaceholder, onChange }) => {
+    const handleTypeChange = (type: ProviderType) => {
+        // 切回 Gemini 时恢复默认模型，避免沿用自托管模型名
+        if (type === 'gemini') onChange({ type, model: geminiModel });
+        else if (type === 'mock') onChange({ ...MOCK_PROVIDER_CONFIG });
+        else onChange({ ...config, type, model: '' });
+    };
+
+    return (
+        <div className="settings-section">
+            <div className="settings-section-title">{title}</div>
+            <label className="settings-field">
+                服务类型
+                <select
+                    className="settings-input"
+                    value={config.type}
+                    onChange={(e) => handleTypeChange(e.target.value as ProviderType)}
+                >
+                    {PROVIDER_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+            </label>
+            {config.type !== 'mock' && <label className="settings-field">
+                模型
+                <input
+                    className="settings-input"
+                    value={config.model}
+                    placeholder={modelPlaceholder}
+                    onChange={(e) => onChange({ ...config, model: e.target.value })}
+                />
+            </label>}
+            {config.type === 'openai' && (
+                <>
+                    <label className="settings-field">
+                        Base URL
+                        <input
+                            className="settings-input"
+                            value={config.baseUrl || ''}
+                            placeholder="http://localhost:11434/v1"
+                            onChange={(e) => onChange({ ...config, baseUrl: e.target.value })}
+                        />
+                    </label>
+                    <label className="settings-field">
+                        API Key (可选)
+                        <input
+                            className="settings-input"
+                            type="password"
+                            value={config.apiKey || ''}
+                            onChange={(e) => onChange({ ...config, apiKey: e.target.value })}
+                        />
+                    </label>
+                </>
+            )}
+            {config.type === 'gemini' && (
+                <div className="card-meta">使用环境变量 GEMINI_API_KEY 或 AI Studio 选择的 Key</div>
+            )}
+            {config.type === 'mock' && (
+                <div className="card-meta">不联网，返回基于原文的固定拆分与结构，并在本地绘制占位图</div>
+            )}
+        </div>
+    );
+};
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+    const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+    const invalid = [draft.text, draft.image].some(c => !c.model.trim() || (c.type === 'openai' && !c.baseUrl?.trim()));
+
+    return (
+        <div className="side-panel-overlay" onClick={onClose}>
+            <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+                <div className="side-panel-header">
+                    <span>⚙️ 模型设置</span>
+                    <button className="card-action-btn" onClick={onClose}>✕</button>
+                </div>
+
+                <div className="side-panel-body">
+                    <ProviderConfigForm
+                        title="📝 整理大师（文本模型）"
+                        config={draft.text}
+                        geminiModel={TEXT_MODEL}
+                        modelPlaceholder="qwen2.5:14b"
+                        onChange={(text) => setDraft({ ...draft, text })}
+                    />
+                    <ProviderConfigForm
+                        title="🖌️ 绘图大师（图像模型）"
+                        config={draft.image}
+                        geminiModel={IMAGE_MODEL}
+                        modelPlaceholder="stable-diffusion-xl"
+                        onChange={(image) => setDraft({ ...draft, image })}
+                    />
+
+                    <div className="edit-actions">
+                        <button className="btn-cancel" onClick={() => setDraft(DEFAULT_PROVIDER_SETTINGS)}>恢复默认</button>
+                        <button className="btn-save" onClick={() => onSave(draft)} disabled={invalid}>保存</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
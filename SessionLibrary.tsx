@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { Stage, SessionSummary } from './types';
+import { listSessions, renameSession, duplicateSession, deleteSession } from './sessionStore';
+
+interface SessionLibraryProps {
+    currentSessionId: string;
+    onOpen: (id: string) => void;
+    onNew: () => void;
+    onDeleted: (id: string) => void;
+    onRenamed: (id: string, name: string) => void;
+    onClose: () => void;
+    newId: () => string;
+}
+
+const STAGE_LABELS: Record<number, string> = {
+    [Stage.Input]: '待输入',
+    [Stage.Splitting]: '拆分中',
+    [Stage.ReviewSplit]: '确认拆分',
+    [Stage.Organizing]: '整理中',
+    [Stage.ReviewStructure]: '确认结构',
+    [Stage.Designing]: '设计中',
+    [Stage.ReviewPrompt]: '待绘制',
+    [Stage.Painting]: '绘制中',
+    [Stage.Done]: '已完成',
+    [Stage.BatchProcessing]: '批量处理中'
+};
+
+export const SessionLibrary: React.FC<SessionLibraryProps> = ({ currentSessionId, onOpen, onNew, onDeleted, onRenamed, onClose, newId }) => {
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    const refresh = async () => {
+        try {
+            setSessions(await listSessions());
+        } catch (e) {
+            console.error('Failed to list sessions', e);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const startRename = (s: SessionSummary) => {
+        setRenamingId(s.id);
+        setRenameValue(s.name);
+    };
+
+    const commitRename = async () => {
+        if (renamingId && renameValue.trim()) {
+            await renameSession(renamingId, renameValue.trim());
+            onRenamed(renamingId, renameValue.trim());
+            await refresh();
+        }
+        setRenamingId(null);
+    };
+
+    const handleDuplicate = async (id: string) => {
+        await duplicateSession(id, newId());
+        await refresh();
+    };
+
+    const handleDelete = async (s: SessionSummary) => {
+        if (!window.confirm(`确定删除会话「${s.name}」吗？此操作无法撤销。`)) return;
+        await deleteSession(s.id);
+        onDeleted(s.id);
+        await refresh();
+    };
+
+    return (
+        <div className="side-panel-overlay" onClick={onClose}>
+            <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+                <div className="side-panel-header">
+                    <span>📚 会话库</span>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                        <button className="card-action-btn" onClick={onNew}>➕ 新会话</button>
+                        <button className="card-action-btn" onClick={onClose}>✕</button>
+                    </div>
+                </div>
+
+                <div className="side-panel-body">
+                    {loading && <p className="card-placeholder">加载中...</p>}
+                    {!loading && sessions.length === 0 && <p className="card-placeholder">暂无保存的会话</p>}
+                    {sessions.map(s => (
+                        <div key={s.id} className={`session-item ${s.id === currentSessionId ? 'active' : ''}`}>
+                            <div className="session-item-main" onClick={() => renamingId !== s.id && onOpen(s.id)}>
+                                {renamingId === s.id ? (
+                                    <input
+                                        className="session-rename-input"
+                                        value={renameValue}
+                                        autoFocus
+                                        onChange={(e) => setRenameValue(e.target.value)}
+                                        onBlur={commitRename}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename();
+                                            if (e.key === 'Escape') setRenamingId(null);
+                                        }}
+                                    />
+                                ) : (
+                                    <div className="session-item-name">{s.name}</div>
+                                )}
+                                <div className="card-meta">
+                                    {STAGE_LABELS[s.stage] || ''} · {s.noteCount} 个单元 · {s.imageCount} 张图 · {new Date(s.updatedAt).toLocaleString('zh-CN')}
+                                </div>
+                            </div>
+                            <div className="session-item-actions">
+                                <button className="icon-btn" onClick={() => startRename(s)} title="重命名">✏️</button>
+                                <button className="icon-btn" onClick={() => handleDuplicate(s.id)} title="复制">📄</button>
+                                <button className="icon-btn delete" onClick={() => handleDelete(s)} title="删除">🗑️</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
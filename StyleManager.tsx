@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { StylePreset } from './types';
+import { BUILTIN_STYLES, cloneStyle, createBlankStyle, exportStylesJson, parseStylesJson } from './styles';
+
+interface StyleManagerProps {
+    customStyles: StylePreset[];
+    onChange: (styles: StylePreset[]) => void;
+    onClose: () => void;
+    newId: () => string;
+}
+
+const TEXT_FIELDS: { key: keyof StylePreset; label: string; rows: number; placeholder: string }[] = [
+    { key: 'desc', label: '核心美学描述', rows: 3, placeholder: 'Hand-drawn grid paper background, pastel markers...' },
+    { key: 'instructions', label: '图像模型风格指令', rows: 4, placeholder: '- CUTE JOURNAL: pastel palette, rounded note boxes...' },
+    { key: 'palette', label: '默认配色', rows: 2, placeholder: 'Pastel low-saturation colors (Macaron Blue, Cream Yellow)' },
+    { key: 'background', label: '背景', rows: 2, placeholder: 'Light beige (#F5F5DC) with a faint dot grid pattern' },
+    { key: 'fonts', label: '字体建议', rows: 2, placeholder: 'Bold Sans-serif or Clean Handwriting (like 楷体 / Heiti)' }
+];
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const StyleManager: React.FC<StyleManagerProps> = ({ customStyles, onChange, onClose, newId }) => {
+    const [draft, setDraft] = useState<StylePreset | null>(null);
+
+    const isNew = !!draft && !customStyles.some(s => s.id === draft.id);
+    const invalid = !draft || !draft.name.trim() || !draft.desc.trim() || !draft.instructions.trim();
+
+    const handleSave = () => {
+        if (!draft || invalid) return;
+        const style = { ...draft, name: draft.name.trim(), emoji: draft.emoji.trim() || '🎨' };
+        onChange(isNew ? [...customStyles, style] : customStyles.map(s => s.id === style.id ? style : s));
+        setDraft(null);
+    };
+
+    const handleDelete = (style: StylePreset) => {
+        if (!window.confirm(`确定删除风格「${style.name}」吗？`)) return;
+        onChange(customStyles.filter(s => s.id !== style.id));
+        if (draft?.id === style.id) setDraft(null);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const imported = parseStylesJson(await file.text(), newId);
+            onChange([...customStyles, ...imported]);
+            alert(`已导入 ${imported.length} 个风格`);
+        } catch (e: any) {
+            alert(`导入失败：${e?.message || e}`);
+        }
+    };
+
+    const renderItem = (style: StylePreset) => (
+        <div key={style.id} className={`session-item ${draft?.id === style.id ? 'active' : ''}`}>
+            <div className="session-item-main" onClick={() => !style.builtin && setDraft(style)}>
+                <div className="session-item-name">{style.emoji} {style.name}</div>
+                <div className="card-meta">{style.builtin ? '内置风格（复制后可编辑）' : style.desc}</div>
+            </div>
+            <div className="session-item-actions">
+                {!style.builtin && <button className="icon-btn" onClick={() => setDraft(style)} title="编辑">✏️</button>}
+                <button className="icon-btn" onClick={() => setDraft(cloneStyle(style, newId()))} title="复制">📄</button>
+                {!style.builtin && <button className="icon-btn delete" onClick={() => handleDelete(style)} title="删除">🗑️</button>}
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="side-panel-overlay" onClick={onClose}>
+            <div className="side-panel" onClick={(e) => e.stopPropagation()}>
+                <div className="side-panel-header">
+                    <span>🎨 风格管理</span>
+                    <div style={{ display: 'flex', gap: '6px' }}>
+                        <button className="card-action-btn" onClick={() => setDraft(createBlankStyle(newId()))}>➕ 新建</button>
+                        <button className="card-action-btn" onClick={onClose}>✕</button>
+                    </div>
+                </div>
+
+                <div className="side-panel-body">
+                    {draft && (
+                        <div className="settings-section">
+                            <div className="settings-section-title">{isNew ? '新建风格' : '编辑风格'}</div>
+                            <div style={{ display: 'flex', gap: '8px' }}>
+                                <label className="settings-field" style={{ width: '56px' }}>
+                                    图标
+                                    <input
+                                        className="settings-input"
+                                        value={draft.emoji}
+                                        maxLength={4}
+                                        onChange={(e) => setDraft({ ...draft, emoji: e.target.value })}
+                                    />
+                                </label>
+                                <label className="settings-field" style={{ flex: 1 }}>
+                                    名称
+                                    <input
+                                        className="settings-input"
+                                        value={draft.name}
+                                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    />
+                                </label>
+                            </div>
+                            {TEXT_FIELDS.map(f => (
+                                <label key={f.key} className="settings-field">
+                                    {f.label}
+                                    <textarea
+                                        className="settings-input"
+                                        rows={f.rows}
+                                        value={draft[f.key] as string}
+                                        placeholder={f.placeholder}
+                                        onChange={(e) => setDraft({ ...draft, [f.key]: e.target.value })}
+                                    />
+                                </label>
+                            ))}
+                            <div className="edit-actions">
+                                <button className="btn-cancel" onClick={() => setDraft(null)}>取消</button>
+                                <button className="btn-save" onClick={handleSave} disabled={invalid}>保存</button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="settings-section-title">我的风格</div>
+                    {customStyles.length === 0 && <p className="card-placeholder">暂无自定义风格，可新建或复制内置风格</p>}
+                    {customStyles.map(renderItem)}
+
+                    <div className="edit-actions">
+                        <label className="card-action-btn" title="导入风格 JSON 文件">
+                            📥 导入 JSON
+                            <input
+                                type="file"
+                                accept=".json,application/json"
+                                style={{ display: 'none' }}
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) handleImport(file);
+                                }}
+                            />
+                        </label>
+                        <button
+                            className="card-action-btn"
+                            onClick={() => downloadBlob(exportStylesJson(customStyles), 'soulnote-styles.json')}
+                            disabled={customStyles.length === 0}
+                        >
+                            📤 导出 JSON
+                        </button>
+                    </div>
+
+                    <div className="settings-section-title">内置风格</div>
+                    {BUILTIN_STYLES.map(renderItem)}
+                </div>
+            </div>
+        </div>
+    );
+};
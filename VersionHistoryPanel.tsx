@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { LeftBrainData, StructureVersion } from './types';
+import { diffLines } from './textDiff';
+import { structureToText } from './structureHistory';
+
+interface VersionHistoryPanelProps {
+    title: string;
+    versions: StructureVersion[];
+    current: LeftBrainData;
+    onSave: (name: string) => void;
+    onRestore: (version: StructureVersion) => void;
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+// 左侧为所选版本，右侧为当前结构；删除的行只出现在左侧，新增的行只出现在右侧
+const VersionCompare: React.FC<{ version: StructureVersion; current: LeftBrainData }> = ({ version, current }) => {
+    const lines = diffLines(structureToText(version.structure), structureToText(current));
+    if (lines.every(l => l.type === 'same')) {
+        return <div className="card-placeholder">与当前结构一致</div>;
+    }
+    return (
+        <div className="version-compare">
+            <div className="version-compare-column">
+                <div className="settings-section-title">{version.name}</div>
+                <pre className="prompt-diff">
+                    {lines.filter(l => l.type !== 'added').map((line, i) => (
+                        <div key={i} className={`diff-line diff-${line.type}`}>{line.text || ' '}</div>
+                    ))}
+                </pre>
+            </div>
+            <div className="version-compare-column">
+                <div className="settings-section-title">当前</div>
+                <pre className="prompt-diff">
+                    {lines.filter(l => l.type !== 'removed').map((line, i) => (
+                        <div key={i} className={`diff-line diff-${line.type}`}>{line.text || ' '}</div>
+                    ))}
+                </pre>
+            </div>
+        </div>
+    );
+};
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ title, versions, current, onSave, onRestore, onDelete, onClose }) => {
+    const [name, setName] = useState('');
+    const [compareId, setCompareId] = useState<string | null>(null);
+
+    const compared = versions.find(v => v.id === compareId);
+
+    const handleSave = () => {
+        onSave(name.trim() || `编辑版本 ${versions.filter(v => v.source === 'edit').length + 1}`);
+        setName('');
+    };
+
+    const handleRestore = (version: StructureVersion) => {
+        if (!window.confirm(`恢复到版本「${version.name}」吗？当前结构可通过撤销找回。`)) return;
+        onRestore(version);
+    };
+
+    return (
+        <div className="side-panel-overlay" onClick={onClose}>
+            <div className="side-panel wide" onClick={(e) => e.stopPropagation()}>
+                <div className="side-panel-header">
+                    <span>🕘 {title}</span>
+                    <button className="card-action-btn" onClick={onClose}>✕</button>
+                </div>
+
+                <div className="side-panel-body">
+                    <div className="settings-section">
+                        <div className="settings-section-title">保存当前结构</div>
+                        <div style={{ display: 'flex', gap: '6px' }}>
+                            <input
+                                className="settings-input"
+                                style={{ flex: 1 }}
+                                value={name}
+                                placeholder="版本名称（可选）"
+                                maxLength={40}
+                                onChange={(e) => setName(e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                            />
+                            <button className="card-action-btn" onClick={handleSave}>📌 保存</button>
+                        </div>
+                    </div>
+
+                    <div className="settings-section-title">版本（{versions.length}）</div>
+                    {versions.length === 0 && <p className="card-placeholder">暂无版本，AI 整理的结果会自动保存</p>}
+                    {[...versions].reverse().map(version => (
+                        <div key={version.id} className={`session-item ${compareId === version.id ? 'active' : ''}`}>
+                            <div className="session-item-main" onClick={() => setCompareId(compareId === version.id ? null : version.id)}>
+                                <div className="session-item-name">
+                                    {version.source === 'ai' ? '🤖' : '✏️'} {version.name}
+                                </div>
+                                <div className="card-meta">{new Date(version.createdAt).toLocaleString('zh-CN')} · {version.structure.modules.length} 个模块</div>
+                            </div>
+                            <div className="session-item-actions">
+                                <button className="icon-btn" onClick={() => setCompareId(version.id)} title="与当前对比">🔍</button>
+                                <button className="icon-btn" onClick={() => handleRestore(version)} title="恢复此版本">↺</button>
+                                <button className="icon-btn delete" onClick={() => onDelete(version.id)} title="删除">🗑️</button>
+                            </div>
+                        </div>
+                    ))}
+
+                    {compared && (
+                        <div className="settings-section">
+                            <div className="settings-section-title">对比</div>
+                            <VersionCompare version={compared} current={current} />
+                            <div className="edit-actions">
+                                <button className="btn-cancel" onClick={() => setCompareId(null)}>关闭对比</button>
+                                <button className="btn-save" onClick={() => handleRestore(compared)}>恢复此版本</button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,157 @@
+import { NoteImage, NoteUnit, SessionRecord, Stage, StylePreset, UsageEntry, VisualSettings } from './types';
+import { createZip, readZip, ZipEntry } from './zip';
+
+// 项目包（.soulnote.zip）：manifest.json + images/*.png
+// 结构变化时提升 BUNDLE_VERSION，并在 MIGRATIONS 中补充旧版本的升级函数
+
+export const BUNDLE_FORMAT = 'soulnote-bundle';
+export const BUNDLE_VERSION = 4;
+const MANIFEST_PATH = 'manifest.json';
+
+type BundleImage = Omit<NoteImage, 'dataUri'> & { path: string };
+type BundleNote = Omit<NoteUnit, 'finalImage' | 'images'> & { finalImagePath?: string; images?: BundleImage[] };
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  name: string;
+  stage: Stage;
+  originalText: string;
+  visualSettings: VisualSettings;
+  notes: BundleNote[];
+  styles: StylePreset[]; // 会话用到的自定义风格，换一台机器导入也能原样还原
+  usage?: UsageEntry[]; // 可选字段，旧版本包中没有，无需迁移
+}
+
+export type BundleContents = Pick<SessionRecord, 'name' | 'stage' | 'savedOriginalText' | 'visualSettings' | 'notes' | 'usage'> & {
+  styles: StylePreset[];
+};
+
+// version N -> N + 1
+const MIGRATIONS: Record<number, (manifest: any) => any> = {
+  // v2: VisualSettings gained aspectRatio / layout
+  1: (manifest) => ({
+    ...manifest,
+    visualSettings: { aspectRatio: '3:4', layout: 'bento', ...manifest.visualSettings }
+  }),
+  // v3: notes gained candidate image history; older bundles only carry finalImagePath
+  2: (manifest) => manifest,
+  // v4: custom styles used by the session are bundled; older bundles only carry visualSettings.styleId
+  3: (manifest) => ({ ...manifest, styles: [] })
+};
+
+const migrateManifest = (manifest: any): BundleManifest => {
+  if (manifest?.format !== BUNDLE_FORMAT || typeof manifest.version !== 'number') {
+    throw new Error('不是有效的 SoulNote 项目包');
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error(`项目包版本 v${manifest.version} 高于当前支持的 v${BUNDLE_VERSION}，请升级应用`);
+  }
+  let current = manifest;
+  while (current.version < BUNDLE_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) throw new Error(`缺少 v${current.version} 项目包的升级规则`);
+    current = { ...migrate(current), version: current.version + 1 };
+  }
+  return current as BundleManifest;
+};
+
+const dataUriToBytes = (dataUri: string): { bytes: Uint8Array; ext: string } => {
+  const [meta, base64] = dataUri.split(',');
+  const mime = meta.match(/data:([^;]+)/)?.[1] || 'image/png';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, ext: mime.split('/')[1] || 'png' };
+};
+
+const bytesToDataUri = (bytes: Uint8Array, path: string): string => {
+  const ext = path.split('.').pop()?.toLowerCase() || 'png';
+  const mime = ext === 'jpg' || ext === 'jpeg' ? 'image/jpeg' : `image/${ext}`;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mime};base64,${btoa(binary)}`;
+};
+
+// customStyles: 当前的自定义风格，只打包会话实际用到的那些
+export const exportBundle = (session: SessionRecord, customStyles: StylePreset[] = []): Blob => {
+  const images: ZipEntry[] = [];
+  const notes: BundleNote[] = session.notes.map((note, i) => {
+    const { finalImage, images: history, ...rest } = note;
+    const bundleNote: BundleNote = { ...rest, isProcessing: false };
+    const prefix = `images/note-${String(i + 1).padStart(2, '0')}`;
+    if (finalImage) {
+      const { bytes, ext } = dataUriToBytes(finalImage);
+      const path = `${prefix}.${ext}`;
+      images.push({ name: path, data: bytes });
+      bundleNote.finalImagePath = path;
+    }
+    if (history?.length) {
+      // 与成图相同的候选直接引用成图文件，不重复打包
+      bundleNote.images = history.map(({ dataUri, ...meta }, j) => {
+        if (dataUri === finalImage) return { ...meta, path: bundleNote.finalImagePath! };
+        const { bytes, ext } = dataUriToBytes(dataUri);
+        const path = `${prefix}-${String(j + 1).padStart(2, '0')}.${ext}`;
+        images.push({ name: path, data: bytes });
+        return { ...meta, path };
+      });
+    }
+    return bundleNote;
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    name: session.name,
+    stage: session.stage,
+    originalText: session.savedOriginalText,
+    visualSettings: session.visualSettings,
+    notes,
+    styles: customStyles
+      .filter(s => !s.builtin && s.id === session.visualSettings.styleId)
+      .map(({ builtin, ...style }) => style),
+    ...(session.usage?.length ? { usage: session.usage } : {})
+  };
+
+  const json = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  return createZip([{ name: MANIFEST_PATH, data: json }, ...images]);
+};
+
+export const importBundle = async (file: Blob): Promise<BundleContents> => {
+  const files = await readZip(await file.arrayBuffer());
+  const rawManifest = files.get(MANIFEST_PATH);
+  if (!rawManifest) throw new Error('项目包中缺少 manifest.json');
+
+  const manifest = migrateManifest(JSON.parse(new TextDecoder().decode(rawManifest)));
+  const readImage = (path: string): string | undefined => {
+    const bytes = files.get(path);
+    if (!bytes) console.warn(`Bundle image missing: ${path}`);
+    return bytes ? bytesToDataUri(bytes, path) : undefined;
+  };
+
+  const notes: NoteUnit[] = manifest.notes.map(({ finalImagePath, images: history, ...note }) => {
+    const finalImage = finalImagePath ? readImage(finalImagePath) : undefined;
+    const images = history?.flatMap(({ path, ...meta }): NoteImage[] => {
+      const dataUri = path === finalImagePath ? finalImage : readImage(path);
+      return dataUri ? [{ ...meta, dataUri }] : [];
+    });
+    return { ...note, isProcessing: false, finalImage, ...(images ? { images } : {}) };
+  });
+
+  return {
+    name: manifest.name,
+    stage: manifest.stage,
+    savedOriginalText: manifest.originalText,
+    visualSettings: manifest.visualSettings,
+    notes,
+    styles: manifest.styles,
+    ...(manifest.usage ? { usage: manifest.usage } : {})
+  };
+};
+
+export const bundleFileName = (name: string): string =>
+  `${name.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/…$/, '') || 'soulnote'}.soulnote.zip`;
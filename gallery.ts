@@ -0,0 +1,34 @@
+import { NoteImage } from './types';
+
+// 候选图与绘制历史：每次绘制可请求多张候选，全部保留在笔记的 images 中，由用户挑选 finalImage
+
+export const MAX_CANDIDATES = 4;
+// 每个笔记最多保留的历史图片数，超出时丢弃最早且未被选中的图片（图片以 data URI 存入 IndexedDB）
+export const MAX_HISTORY = 12;
+
+// 有文字校验分数时选得分最高的一张，否则选第一张
+export const pickBest = (images: NoteImage[]): NoteImage =>
+  images.reduce((best, img) => ((img.fidelity?.score ?? -1) > (best.fidelity?.score ?? -1) ? img : best), images[0]);
+
+export const appendToHistory = (history: NoteImage[] = [], added: NoteImage[], keep?: string): NoteImage[] => {
+  const next = [...history, ...added];
+  while (next.length > MAX_HISTORY) {
+    const index = next.findIndex(img => img.dataUri !== keep);
+    if (index === -1) break;
+    next.splice(index, 1);
+  }
+  return next;
+};
+
+// --- SETTINGS PERSISTENCE ---
+
+const CANDIDATE_COUNT_KEY = 'soulnote.candidateCount';
+
+export const loadCandidateCount = (): number => {
+  const value = Number(localStorage.getItem(CANDIDATE_COUNT_KEY));
+  return value >= 1 && value <= MAX_CANDIDATES ? Math.round(value) : 1;
+};
+
+export const saveCandidateCount = (count: number) => {
+  localStorage.setItem(CANDIDATE_COUNT_KEY, String(count));
+};
@@ -0,0 +1,192 @@
+import { SplitMode } from './types';
+import { readZip } from './zip';
+
+// 客户端文本导入：.md / .txt / .docx / .pdf 以及网页文章粘贴
+// 尽量把标题层级保留为 Markdown（# / ##），供整理大师的"结构保留优先"规则使用
+
+export const SUPPORTED_EXTENSIONS = ['.md', '.markdown', '.txt', '.docx', '.pdf'];
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf('.')).toLowerCase();
+
+export const isSupportedFile = (file: File) => SUPPORTED_EXTENSIONS.includes(extensionOf(file.name));
+
+// 折叠多余空行，统一换行符
+const tidy = (text: string) =>
+  text.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+// --- DOCX ---
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const docxParagraphText = (p: Element): string => {
+  let text = '';
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      if (child.namespaceURI !== W_NS) {
+        walk(child);
+        continue;
+      }
+      if (child.localName === 't') text += child.textContent || '';
+      else if (child.localName === 'tab') text += '\t';
+      else if (child.localName === 'br' || child.localName === 'cr') text += '\n';
+      else if (child.localName !== 'pPr' && child.localName !== 'rPr') walk(child);
+    }
+  };
+  walk(p);
+  return text;
+};
+
+const docxParagraphPrefix = (p: Element): string => {
+  const pPr = Array.from(p.children).find(c => c.localName === 'pPr');
+  if (!pPr) return '';
+  const style = Array.from(pPr.children).find(c => c.localName === 'pStyle')?.getAttributeNS(W_NS, 'val') || '';
+  if (/^title$/i.test(style)) return '# ';
+  const heading = style.match(/^heading\s*(\d)$/i) || style.match(/^(\d)$/); // 中文 Word 模板的标题样式 ID 常为 "1" "2"
+  if (heading) return `${'#'.repeat(Math.min(Number(heading[1]) + 1, 6))} `;
+  if (Array.from(pPr.children).some(c => c.localName === 'numPr')) return '- ';
+  return '';
+};
+
+const extractDocx = async (file: File): Promise<string> => {
+  const files = await readZip(await file.arrayBuffer());
+  const xml = files.get('word/document.xml');
+  if (!xml) throw new Error('无效的 .docx 文件：缺少 word/document.xml');
+
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+  const body = doc.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) return '';
+
+  const blocks: string[] = [];
+  for (const node of Array.from(body.children)) {
+    if (node.localName === 'p') {
+      const text = docxParagraphText(node).trim();
+      if (text) blocks.push(docxParagraphPrefix(node) + text);
+    } else if (node.localName === 'tbl') {
+      const rows = Array.from(node.getElementsByTagNameNS(W_NS, 'tr')).map(tr =>
+        Array.from(tr.getElementsByTagNameNS(W_NS, 'tc'))
+          .map(tc => Array.from(tc.getElementsByTagNameNS(W_NS, 'p')).map(docxParagraphText).join(' ').trim())
+          .join(' | ')
+      );
+      blocks.push(rows.join('\n'));
+    }
+  }
+  return blocks.join('\n\n');
+};
+
+// --- PDF ---
+
+const extractPdf = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  const workerUrl = (await import('pdfjs-dist/build/pdf.worker.min.mjs?url')).default;
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    const items = content.items.filter((it): it is Extract<typeof it, { str: string }> => 'str' in it);
+
+    // 以正文字号的中位数为基准，明显更大的行视为标题
+    const heights = items.map(it => it.height).filter(h => h > 0).sort((a, b) => a - b);
+    const bodySize = heights[Math.floor(heights.length / 2)] || 0;
+
+    const lines: { text: string; size: number }[] = [];
+    let current = { text: '', size: 0 };
+    for (const it of items) {
+      current.text += it.str;
+      current.size = Math.max(current.size, it.height);
+      if (it.hasEOL) {
+        lines.push(current);
+        current = { text: '', size: 0 };
+      }
+    }
+    if (current.text) lines.push(current);
+
+    pages.push(lines.map(line => {
+      const text = line.text.trim();
+      if (!text) return '';
+      if (bodySize && line.size >= bodySize * 1.6) return `\n# ${text}\n`;
+      if (bodySize && line.size >= bodySize * 1.25) return `\n## ${text}\n`;
+      return text;
+    }).join('\n'));
+  }
+
+  return pages.join('\n\n');
+};
+
+export const extractTextFromFile = async (file: File): Promise<string> => {
+  switch (extensionOf(file.name)) {
+    case '.docx':
+      return tidy(await extractDocx(file));
+    case '.pdf':
+      return tidy(await extractPdf(file));
+    case '.md':
+    case '.markdown':
+    case '.txt':
+      return tidy(await file.text());
+    default:
+      throw new Error(`不支持的文件类型：${file.name}（支持 ${SUPPORTED_EXTENSIONS.join(' ')}）`);
+  }
+};
+
+// --- WEB ARTICLE PASTE ---
+
+const SKIP_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'NAV', 'FOOTER', 'ASIDE', 'FORM', 'BUTTON', 'IFRAME', 'SVG']);
+
+// 网页粘贴的 HTML 含有标题 / 段落 / 列表等块级结构时才转换，否则交给默认粘贴
+export const hasBlockStructure = (html: string) => /<(h[1-6]|p|li|blockquote)[\s>]/i.test(html);
+
+export const htmlToMarkdown = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return (node.textContent || '').replace(/\s+/g, ' ');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as Element;
+    if (SKIP_TAGS.has(el.tagName)) return '';
+    if (el.tagName === 'BR') return '\n';
+    return Array.from(el.childNodes).map(inline).join('');
+  };
+
+  const block = (el: Element): string => {
+    if (SKIP_TAGS.has(el.tagName)) return '';
+    const heading = el.tagName.match(/^H([1-6])$/);
+    if (heading) return `${'#'.repeat(Number(heading[1]))} ${inline(el).trim()}\n\n`;
+    if (el.tagName === 'P' || el.tagName === 'BLOCKQUOTE' || el.tagName === 'PRE') return `${inline(el).trim()}\n\n`;
+    if (el.tagName === 'UL' || el.tagName === 'OL') {
+      const ordered = el.tagName === 'OL';
+      return Array.from(el.children)
+        .filter(li => li.tagName === 'LI')
+        .map((li, i) => `${ordered ? `${i + 1}.` : '-'} ${inline(li).trim()}`)
+        .join('\n') + '\n\n';
+    }
+    if (el.tagName === 'TR') {
+      return Array.from(el.children).map(cell => inline(cell).trim()).join(' | ') + '\n';
+    }
+    // 容器元素：递归块级子元素，散落的文本节点按段落处理
+    return Array.from(el.childNodes).map(child => {
+      if (child.nodeType === Node.ELEMENT_NODE) return block(child as Element);
+      const text = inline(child).trim();
+      return text ? `${text}\n\n` : '';
+    }).join('');
+  };
+
+  return tidy(block(doc.body));
+};
+
+// --- INPUT SIZE GUIDANCE ---
+
+export const AI_SPLIT_SOFT_LIMIT = 12000;
+export const INPUT_HARD_LIMIT = 50000;
+
+export const inputSizeWarning = (length: number, splitMode: SplitMode, maxUnitLength: number): string | null => {
+  if (length > INPUT_HARD_LIMIT) {
+    return `文本过长（${length} 字），预计拆分为约 ${Math.ceil(length / maxUnitLength)} 个笔记单元，建议分批处理`;
+  }
+  if (splitMode === 'ai' && length > AI_SPLIT_SOFT_LIMIT) {
+    return `文本较长（>${AI_SPLIT_SOFT_LIMIT} 字），AI 拆分需回传全文，可能较慢或遗漏内容，建议改用本地规则拆分`;
+  }
+  return null;
+};
@@ -1,9 +1,36 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI } from "@google/genai";
-import { Stage, LeftBrainData, VisualSettings, ContentModule, NoteUnit, ChatItem, ProcessStep, RoleType } from './types';
-import { FlowCanvas } from './FlowCanvas';
+import { Stage, LeftBrainData, VisualSettings, ContentModule, NoteUnit, OrganizeProgress, ChatItem, ProcessStep, RoleType, SessionRecord, SplitMode, StylePreset, NoteDesign, AspectRatio, TextFidelity, NoteImage, RegenerateStage, StructureVersion, UsageEntry, UsageStage } from './types';
+import { FlowCanvas, SplitActions, StructureActions } from './FlowCanvas';
+import { SessionLibrary } from './SessionLibrary';
+import { getSession, saveSession, defaultSessionName } from './sessionStore';
+import { exportBundle, importBundle, bundleFileName } from './bundle';
+import { TextProvider, ImageProvider, ProviderSettings, Usage, createProvider, loadProviderSettings, saveProviderSettings, needsGeminiKey, resolveGeminiKey } from './providers';
+import { ProviderSettingsPanel } from './ProviderSettingsPanel';
+import { StyleManager } from './StyleManager';
+import { BUILTIN_STYLES, loadCustomStyles, saveCustomStyles, findStyle, mergeBundledStyles } from './styles';
+import { DesignSettingsPanel } from './DesignSettingsPanel';
+import { VersionHistoryPanel } from './VersionHistoryPanel';
+import { JobQueueView } from './JobQueueView';
+import { CostDashboard } from './CostDashboard';
+import { resolveVisualSettings } from './palettes';
+import { ASPECT_RATIOS, LAYOUT_TEMPLATES, findAspectRatio, findLayout } from './layouts';
+import { renderLocalNote } from './localRenderer';
+import { ModuleActionType, runModuleAction } from './moduleActions';
+import { mergeSources, numberParagraphs, splitParagraphs } from './sourceTrace';
+import { UndoStack, recordChange, undoChange, redoChange, withStructure, addVersion, hasVersion } from './structureHistory';
+import { MAX_CANDIDATES, appendToHistory, loadCandidateCount, pickBest, saveCandidateCount } from './gallery';
+import { CANCELLED_REASON, describeError, withRetryPolicy } from './retryPolicy';
+import { JobKind, JobQueue, JobStatus, QueueState, DEFAULT_CONCURRENCY, countStatuses, createJobQueue } from './jobQueue';
+import { LegibilitySettings, loadLegibilitySettings, saveLegibilitySettings, readImageText, scoreFidelity } from './legibility';
+import { parsePartialObject } from './partialJson';
+import { estimateTokens } from './tokens';
+import { ModelPrice, addUsage, estimatePaintCost, formatCost, loadModelPrices, mergeUsage, saveModelPrices, totalUsage, withUsageMeter } from './usage';
+import { LEFT_BRAIN_SCHEMA, validateLeftBrain, parseJsonResponse, toLeftBrainData } from './organizerSchema';
+import { splitTextLocally, coversText, clampSplitOptions, SplitOptions, DEFAULT_SPLIT_OPTIONS, MIN_SPLIT_LENGTH, MIN_SPLIT_MAX_LENGTH } from './localSplitter';
+import { splitNoteAt, mergeWithNext, moveNote, removeNote, appendNote } from './noteOps';
+import { SUPPORTED_EXTENSIONS, isSupportedFile, extractTextFromFile, hasBlockStructure, htmlToMarkdown, inputSizeWarning } from './importers';
 // import { v4 as uuidv4 } from 'uuid'; // Removed: not in package.json
 const uuidv4 = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
 
@@ -20,20 +47,22 @@ const ROLES = {
   painter: { emoji: '🖌️', name: '绘图创作大师', color: '#3b82f6', avatar: 'painter_avatar.png' }
 };
 
-const STYLES = [
-  { id: 'healing', name: '可爱手帐 (Cute Journal)', emoji: '📒', desc: 'Hand-drawn grid paper background, pastel markers, dense text notes, cute stickers, kawaii aesthetic, study note style' },
-  { id: 'tech', name: '极客蓝图 (Tech Blueprint)', emoji: '📟', desc: 'Dark blue blueprint background, neon cyan lines, dense data visualization, holographic UI elements, futuristic technical schematic' },
-  { id: 'retro', name: '复古海报 (Retro Poster)', emoji: '📰', desc: 'Vintage paper texture, bold typography, densely packed layout, pop art halftone patterns, collage style, infographic poster' },
-  { id: 'zen', name: '新中式 (Zen Ink)', emoji: '🎋', desc: 'White rice paper texture, minimalist ink wash painting, black calligraphy, vertical layout, red seal, intellectual aesthetic' },
-  { id: 'clay', name: '3D粘土 (3D Clay)', emoji: '🧸', desc: '3D rendered claymorphism, plasticine texture, soft lighting, rounded edges, playful toy-like look, flat text labels on clay surfaces' },
-];
-
 // --- API HELPERS ---
 
-const processLeftBrain = async (ai: GoogleGenAI, text: string): Promise<LeftBrainData> => {
+const MAX_ORGANIZE_REPAIRS = 2;
+
+// 从未收完的输出中取出标题和已经完整的模块
+const toOrganizeProgress = (output: string, attempt: number): OrganizeProgress => {
+  const { fields, items } = parsePartialObject(output);
+  const modules = (items.modules || [])
+    .filter((m: any) => typeof m?.heading === 'string' && typeof m?.content === 'string')
+    .map((m: any, i) => ({ id: `m${i}`, heading: m.heading.trim(), content: m.content.trim() }));
+  return { tokens: estimateTokens(output), attempt, title: fields.title?.trim(), modules };
+};
+
+const processLeftBrain = async (provider: TextProvider, text: string, signal?: AbortSignal, onProgress?: (progress: OrganizeProgress) => void): Promise<LeftBrainData> => {
   console.log("Processing Left Brain for text length:", text.length);
-  const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY || (import.meta as any)?.env?.VITE_API_KEY || (import.meta as any)?.env?.VITE_GEMINI_API_KEY;
-  const useProxy = !!TEXT_PROXY && !isDev;
+  const paragraphs = splitParagraphs(text);
   const prompt = `
     # Role
 你是一位 ** 极致精炼的全覆盖笔记专家 **。
@@ -48,6 +77,7 @@ const processLeftBrain = async (ai: GoogleGenAI, text: string): Promise<LeftBrai
 1. ** 信息100 % 无死角覆盖 **：精准捕捉原文所有核心概念、关键数据、重要结论、逻辑关系、实操步骤、边界条件。确保用户看完笔记无需回看原文。
 2. ** 精炼到极致 **：用「关键词 + 极简短句（≤10字）」提炼，剔除所有冗余修饰，做到“字字千金”。
 3. ** 逻辑丝滑 **：严格遵循原文的论述顺序 / 逻辑框架。
+4. ** 可溯源 **：输入文本已按段落编号为 [P1]、[P2]……，每个模块在 sources 中列出其内容依据的段落编号（如 [1, 2]）。所有段落都应至少被一个模块引用。编号仅用于溯源，不要写进 heading 或 content。
 
     # Output Format(JSON ONLY)
     Do not output any conversational text.Return ONLY valid JSON:
@@ -58,59 +88,66 @@ const processLeftBrain = async (ai: GoogleGenAI, text: string): Promise<LeftBrai
         "modules": [
           {
             "heading": "原文的标题或归纳的小标题",
-            "content": "极简内容点1; 极简内容点2... (保持极度精炼)"
+            "content": "极简内容点1; 极简内容点2... (保持极度精炼)",
+            "sources": [1, 2]
           },
           ... (Repeat based on original structure or 3 - 6 modules)
         ]
 }
 
     【输入文本】
-    ${text}
+    ${numberParagraphs(text, paragraphs)}
 `;
-  try {
-    let responseText = '';
-    if (useProxy) {
-      const resp = await fetch(`${TEXT_PROXY}/v1beta/models/${TEXT_MODEL}:generateContent`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: prompt }] }] })
-      });
-      const jsonResp = await resp.json();
-      responseText = jsonResp?.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    } else {
-      const res = await ai.models.generateContent({ model: TEXT_MODEL, contents: prompt });
-      responseText = res.text || '';
-    }
-
-    console.log("Left Brain Raw Response:", responseText);
-    const raw = responseText?.replace(/```json/gi, '').replace(/```/g, '').trim() || '{}';
-    const json = JSON.parse(raw);
-    // Add IDs for React rendering
-    json.modules = json.modules?.map((s: any, i: number) => ({ ...s, id: `m${i} ` })) || [];
+  let lastOutput = '';
+  let violations: string[] = [];
+
+  // 首次请求 + 最多 MAX_ORGANIZE_REPAIRS 次带问题清单的重新请求
+  for (let attempt = 0; attempt <= MAX_ORGANIZE_REPAIRS; attempt++) {
+    const request = attempt === 0 ? prompt : `
+# 修正要求(CRITICAL)
+你上一次的输出不符合要求：
+${violations.map(v => `- ${v}`).join('\n')}
+
+上一次的输出：
+${lastOutput.substring(0, 2000)}
+
+请修正以上问题，按照下面的原始任务重新输出完整 JSON。
+${prompt}`;
+
+    const { text: responseText } = await provider.generateText({
+      prompt: request,
+      task: 'organize',
+      responseSchema: LEFT_BRAIN_SCHEMA,
+      signal,
+      onText: onProgress && (output => onProgress(toOrganizeProgress(output, attempt + 1)))
+    });
+    console.log(`Left Brain Raw Response (attempt ${attempt + 1}):`, responseText);
+    lastOutput = responseText;
 
-    // Validate structure
-    if (!json.modules || json.modules.length === 0) {
-      console.warn("Left Brain returned empty modules, using fallback");
-      throw new Error("Empty modules");
+    let json: any;
+    try {
+      json = parseJsonResponse(responseText);
+    } catch (e) {
+      violations = ['输出不是合法的 JSON'];
+      continue;
     }
 
-    return json;
-  } catch (e) {
-    console.error("Left brain parse error", e);
-    return {
-      title: "解析失败",
-      summary_context: "请重试或检查输入",
-      visual_theme_keywords: "abstract",
-      modules: [
-        { id: 'err1', heading: '错误', content: '无法解析内容，请重试' }
-      ]
-    };
+    violations = validateLeftBrain(json);
+    if (violations.length === 0) {
+      return toLeftBrainData(json, paragraphs);
+    }
+    console.warn("Left Brain output violates schema:", violations);
   }
+
+  throw new Error(`结构整理失败：${violations.join('；')}`);
 };
 
-const processSplitBrain = async (ai: GoogleGenAI, text: string): Promise<string[]> => {
-  const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY || (import.meta as any)?.env?.VITE_API_KEY || (import.meta as any)?.env?.VITE_GEMINI_API_KEY;
-  const useProxy = !!TEXT_PROXY && !isDev;
+interface SplitResult {
+  parts: string[];
+  method: SplitMode;
+}
+
+const processSplitBrain = async (provider: TextProvider, text: string, options: SplitOptions): Promise<SplitResult> => {
   const prompt = `
 # Role
 你是一位**资深内容策略师**，擅长判断文本是否需要拆分，以及如何进行最优拆分。
@@ -152,20 +189,13 @@ const processSplitBrain = async (ai: GoogleGenAI, text: string): Promise<string[
 ${text}
 `;
 
+  const fallback = (reason: string): SplitResult => {
+    console.warn(`AI split unusable (${reason}), falling back to local splitter`);
+    return { parts: splitTextLocally(text, options), method: 'local' };
+  };
+
   try {
-    let responseText = '';
-    if (useProxy) {
-      const resp = await fetch(`${TEXT_PROXY}/v1beta/models/${TEXT_MODEL}:generateContent`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ contents: [{ role: 'user', parts: [{ text: prompt }] }] })
-      });
-      const jsonResp = await resp.json();
-      responseText = jsonResp?.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    } else {
-      const res = await ai.models.generateContent({ model: TEXT_MODEL, contents: prompt });
-      responseText = res.text || '';
-    }
+    const { text: responseText } = await provider.generateText({ prompt, task: 'split' });
 
     const raw = responseText?.replace(/```json/gi, '').replace(/```/g, '').trim() || '[]';
     const parts = JSON.parse(raw);
@@ -175,48 +205,54 @@ ${text}
       const validParts = parts.filter((p: string) => typeof p === 'string' && p.trim().length >= 100);
 
       if (validParts.length === 0) {
-        console.warn("AI returned invalid split, using original text");
-        return [text];
+        return fallback('no valid parts');
       }
 
-      return validParts;
+      // AI 可能改写或遗漏原文：非空白字数丢失超过 10% 时改用本地拆分
+      const countChars = (s: string) => s.replace(/\s+/g, '').length;
+      if (countChars(validParts.join('')) < countChars(text) * 0.9) {
+        return fallback('parts drop too much text');
+      }
+
+      return { parts: validParts, method: 'ai' };
     }
 
-    return [text];
+    return fallback('empty response');
   } catch (e) {
     console.error("Split brain error", e);
-    return [text];
+    return fallback('request or parse error');
   }
 };
 
 // SYNCHRONOUS TEMPLATE GENERATION (No AI call)
-const processRightBrain = (data: LeftBrainData, settings: VisualSettings): string => {
+const processRightBrain = (data: LeftBrainData, settings: VisualSettings, style: StylePreset): string => {
   // 安全检查：确保 data 存在
   if (!data) {
     console.error("processRightBrain: data is null or undefined");
     return "Error: No data provided";
   }
 
-  const styleObj = STYLES.find(s => s.id === settings.styleId) || STYLES[0];
-
   // 安全提取字段，提供默认值
   const title = data.title || '未命名笔记';
   const summary = data.summary_context || '';
   const keywords = data.visual_theme_keywords || 'abstract concepts';
   const modules = data.modules || [];
+  const layout = findLayout(settings.layout);
+  const ratio = findAspectRatio(settings.aspectRatio);
+  const sectionCount = Math.max(modules.length, 1);
 
   // Using the strict template provided by user
   return `
 Role: You are an expert Information Designer specializing in high - clarity educational sketchnotes.Your goal is to visualize complex information into a clean, organized, and readable "Visual Note".
 
-# VISUAL STYLE: [User Selection: ${styleObj.name}]
-  - Core Aesthetic: ${styleObj.desc}. Flat Vector Illustration style.Clean lines, high resolution, no blurring.
-- Background: Light beige(#F5F5DC) or style - appropriate light background with a faint dot grid pattern.CLEAN background, no heavy textures that interfere with text.
-- Color Palette: ${settings.colorTheme ? settings.colorTheme : 'Pastel low-saturation colors (Macaron Blue, Cream Yellow, Soft Pink)'} + Dark Charcoal(#333333) for all text.
+# VISUAL STYLE: [User Selection: ${style.name}]
+  - Core Aesthetic: ${style.desc}. Flat Vector Illustration style.Clean lines, high resolution, no blurring.
+- Background: ${style.background}.CLEAN background, no heavy textures that interfere with text.
+- Color Palette: ${settings.colorTheme ? settings.colorTheme : style.palette} + Dark Charcoal(#333333) for all text.
 - Decorations: Simple 2D icons(flat style), subtle doodles related to "${keywords}" scattered * around * text boxes, not * behind * text.
 
 # CRITICAL TEXT RENDERING RULES(Priority Level: MAX)
-1. Font Strategy(The Success Secret): Use a font style resembling "Bold Sans-serif" or "Clean Handwriting"(like 楷体 / Heiti).Absolutely NO cursive, calligraphy, or messy strokes.Characters must be blocky and distinct.
+1. Font Strategy(The Success Secret): Use a font style resembling ${style.fonts}.Absolutely NO cursive, calligraphy, or messy strokes.Characters must be blocky and distinct.
 2. Text Container Strategy: All main text blocks MUST be placed inside ** Solid Color Text Bubbles or Rectangular Boxes ** (White or very light pastel fill) to ensure maximum contrast against the background dots.
 3. Clarity Over Style: Legibility is the #1 priority.Text characters must be sharp, high - contrast, and fully formed.
 4. Language: Simplified Chinese(简体中文).Check for correct stroke counts.NO Japanese Kana.
@@ -226,11 +262,11 @@ Role: You are an expert Information Designer specializing in high - clarity educ
     - Body Text: Medium size, clear bullet points.
 
 # LAYOUT & COMPOSITION
-  - Grid System: Use a modular layout(like a bento box).Divide the canvas into 5 clear, non - overlapping sections for the main points, plus a title area and footer.
-- Flow: Use cute, hand - drawn dotted arrows to guide the eye from section 1 to 5 logically.
+  - Grid System: ${layout.grid(sectionCount)}
+- Flow: ${layout.flow(sectionCount)}
 
 # OUTPUT SPECS
-  - Ratio: 3: 4(Vertical Long Chart)
+  - Ratio: ${ratio.id}(${ratio.orientation})
     - Resolution: High Definition(Vector - like sharpness)
 
 # VISUALIZATION CONTENT(Render exactly as structured below):
@@ -243,155 +279,72 @@ Footer Watermark: "${settings.watermark}"
   `.trim();
 };
 
-// Default to Gemini 3 Pro Image (preview); override via IMAGE_MODEL env if needed.
-const IMAGE_MODEL = process.env.IMAGE_MODEL || 'gemini-3-pro-image-preview';
-const IMAGEN_PROXY = process.env.IMAGEN_PROXY || '/api/imagen';
-const TEXT_PROXY = process.env.TEXT_PROXY || '/api/genai';
-const TEXT_MODEL = 'gemini-2.0-flash-exp';
-const isDev = typeof import.meta !== 'undefined' && (import.meta as any).env?.DEV;
+// 混合模式的底图指令：只要插画与装饰，不要任何文字，正文由本地排版叠加
+const processBackgroundBrain = (data: LeftBrainData, settings: VisualSettings, style: StylePreset): string => {
+  const layout = findLayout(settings.layout);
+  const sectionCount = Math.max(data.modules?.length || 0, 1);
+  return `
+Role: You are an illustrator creating the BACKGROUND LAYER of an educational visual note. Text will be typeset on top of your image by another tool.
+
+# VISUAL STYLE: [User Selection: ${style.name}]
+- Core Aesthetic: ${style.desc}.
+- Background: ${style.background}.
+- Color Palette: ${settings.colorTheme || style.palette}.
+- Decorations: illustrations and doodles related to "${data.visual_theme_keywords || 'abstract concepts'}".
+
+# COMPOSITION
+- Reserve a calm, light band across the top for the title.
+- ${layout.grid(sectionCount)} Keep every section as a plain light area with no details inside; put all illustrations in the margins and gaps between sections.
+- Keep the bottom edge clean for a footer.
+
+# ABSOLUTELY NO TEXT
+- Do not draw any letters, Chinese characters, numbers, labels, logos or watermarks anywhere in the image.
+`.trim();
+};
+
+// 一次绘制得到的图片（AI 绘制开启文字校验时附带得分）
+interface PaintedImage {
+  image: string;
+  fidelity?: TextFidelity;
+}
+
+// processHand 在绘图指令外附加的绘制要求，用于绘制前的费用预估
+const IMAGE_PROMPT_OVERHEAD_TOKENS = 150;
 
-const processHand = async (ai: GoogleGenAI, prompt: string, styleId: string): Promise<string> => {
+const processHand = async (provider: ImageProvider, prompt: string, style: StylePreset, settings: VisualSettings, moduleCount: number, textFree = false, count = 1, signal?: AbortSignal): Promise<string[]> => {
   console.log("Starting image generation with prompt:", prompt.substring(0, 120));
 
-  const getStyleInstructions = (id: string) => {
-    switch (id) {
-      case 'tech':
-        return `
-            - TECH BLUEPRINT: geometric shapes, straight neon cyan lines, dark blue background, circuit motifs, monospaced label style.
-            - Add grid overlays and holographic UI hints; crisp thin strokes; keep text high-contrast.
-          `;
-      case 'retro':
-        return `
-            - RETRO POSTER: bold blocky layout, halftone texture, vibrant red/yellow/blue with aged paper feel, collage starbursts.
-            - Use impactful headline typography and chunky separators; keep text clear.
-          `;
-      case 'zen':
-        return `
-            - ZEN INK: rice paper white/cream background, ink wash strokes, sparse bamboo or red seal accents, calligraphic headings.
-            - Minimal composition with generous whitespace and crisp black text.
-          `;
-      case 'clay':
-        return `
-            - 3D CLAY: soft pastel claymorphism, rounded blobs, gentle gradients and shadows, toy-like icons.
-            - Text on flat labels with clear sans-serif; avoid noisy details.
-          `;
-      case 'healing':
-      default:
-        return `
-            - CUTE JOURNAL: pastel palette, rounded note boxes, dotted arrows, small doodles (stars/hearts), subtle cream grid background.
-            - Clean sans-serif handwriting style, high readability.
-          `;
-    }
-  };
+  const ratio = findAspectRatio(settings.aspectRatio);
+  const layout = findLayout(settings.layout);
+
+  const visualIntent = textFree
+    ? `
+    - Render as a ${ratio.id} ${ratio.orientation.toLowerCase()} text-free illustration layer (no code, no SVG).
+    - Leave ${Math.max(moduleCount, 1)} clean light panels in a ${layout.promptName.toLowerCase()} arrangement for text that will be added later.
+    - NO text, letters or numbers of any kind.`
+    : `
+    - Render as a finished ${ratio.id} ${ratio.orientation.toLowerCase()} visual note (no code, no SVG).
+    - Ensure all Chinese text is fully legible, sharp, high-contrast inside light text boxes.
+    - ${layout.promptName} layout with title at top, exactly ${Math.max(moduleCount, 1)} content sections, footer watermark.
+    - Flow arrows or connectors should be neat and not occlude text.`;
 
   const imagePrompt = `
     ${prompt}
 
-    # Visual Intent
-    - Render as a finished 3:4 vertical visual note (no code, no SVG).
-    - Ensure all Chinese text is fully legible, sharp, high-contrast inside light text boxes.
-    - Bento-like layout with title at top, 5 clear sections, footer watermark.
-    - Flow arrows or connectors should be neat and not occlude text.
+    # Visual Intent${visualIntent}
 
     # Style Guide
-    ${getStyleInstructions(styleId)}
+    ${style.instructions}
 
     # Output
     - Photo-real or illustration accepted, but keep it flat/clean (no blur).
     - Resolution: high quality PNG suitable for download and display.
   `;
 
-  const maxRetries = 3;
-  let lastError;
-
-  const extractInlineImage = (response: any): { data: string, mimeType: string } | null => {
-    const candidates = response?.candidates || [];
-    for (const cand of candidates) {
-      const parts = cand?.content?.parts || [];
-      for (const part of parts) {
-        if (part.inlineData?.data) {
-          return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
-        }
-      }
-    }
-    return null;
-  };
-
-  const fetchImagen = async (imagePrompt: string): Promise<{ dataUri: string }> => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-      throw new Error("Missing API_KEY for Imagen request");
-    }
-
-    const useProxyImage = !!IMAGEN_PROXY && !isDev;
-    const url = useProxyImage
-      ? `${IMAGEN_PROXY}/v1beta/models/${IMAGE_MODEL}:predict`
-      : `https://generativelanguage.googleapis.com/v1beta/models/${IMAGE_MODEL}:predict?key=${apiKey}`;
-    const body = {
-      instances: [
-        { prompt: imagePrompt }
-      ],
-      parameters: {
-        sampleCount: 1,
-        outputMimeType: "image/png"
-      }
-    };
-
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(body)
-    });
-
-    if (!res.ok) {
-      const errText = await res.text();
-      throw new Error(`Imagen HTTP ${res.status}: ${errText}`);
-    }
-
-    const json = await res.json();
-    const img = json?.predictions?.[0];
-    const data = img?.bytesBase64Encoded || img?.base64Data || img?.data;
-    const mimeType = img?.mimeType || 'image/png';
-    if (!data) {
-      throw new Error("Imagen response missing image data");
-    }
-    return { dataUri: `data:${mimeType};base64,${data}` };
-  };
-
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      if (!isDev && IMAGE_MODEL.toLowerCase().includes('imagen')) {
-        const { dataUri } = await fetchImagen(imagePrompt);
-        console.log("Generated image data URI length:", dataUri.length);
-        return dataUri;
-      }
-
-      const res = await ai.models.generateContent({
-        model: IMAGE_MODEL,
-        contents: [{ role: 'user', parts: [{ text: imagePrompt }] }],
-        generationConfig: {
-          responseMimeType: 'image/png'
-        }
-      });
-
-      const inline = extractInlineImage(res);
-      if (!inline) {
-        throw new Error("No inline image returned");
-      }
-      const dataUri = `data:${inline.mimeType};base64,${inline.data}`;
-      console.log("Generated image data URI length:", dataUri.length);
-      return dataUri;
-    } catch (e) {
-      console.warn(`Image generation attempt ${i + 1} failed: `, e);
-      lastError = e;
-      await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
-    }
-  }
-
-  console.error("All image generation attempts failed:", lastError);
-  throw lastError;
+  // 失败重试由 provider 外层的 retryPolicy 统一处理
+  const { dataUris } = await provider.generateImage({ prompt: imagePrompt, aspectRatio: ratio.id, count, signal });
+  console.log(`Generated ${dataUris.length} image(s), first data URI length:`, dataUris[0]?.length);
+  return dataUris;
 };
 
 // --- MASTER WORKING COMPONENT ---
@@ -484,6 +437,7 @@ const ProcessLog: React.FC<{ steps: ProcessStep[], embedded?: boolean }> = ({ st
                 <div className="step-content">
                   <span className="step-label">{step.label}</span>
                   {isProcessing && <span className="step-dots">...</span>}
+                  {step.detail && <span className="step-detail">{step.detail}</span>}
                 </div>
               </div>
             );
@@ -525,6 +479,68 @@ const ChatBubble: React.FC<{ item: ChatItem }> = ({ item }) => {
   return null;
 };
 
+// --- SESSION HELPERS ---
+
+const INITIAL_CHAT: ChatItem[] = [
+  { id: 'init', type: 'role_message', role: 'organizer', content: '你好！请在下方输入内容，我将为您提炼核心要点。' },
+  { id: 'input', type: 'component', componentType: 'input_form' }
+];
+
+const DEFAULT_VISUAL_SETTINGS: VisualSettings = { styleId: 'healing', colorTheme: '', watermark: '', aspectRatio: '3:4', layout: 'bento' };
+
+// 整理过程日志的步骤对应真实进度：接收输出 → 解析模块 → 校验完成
+const organizeSteps = (tokens: number, modules: number, finished: number, total: number): ProcessStep[] => {
+  const allDone = finished >= total;
+  return [
+    { id: 'o1', label: '接收模型输出', status: allDone ? 'completed' : 'running', detail: `约 ${tokens} tokens` },
+    { id: 'o2', label: '解析结构模块', status: allDone ? 'completed' : modules > 0 ? 'running' : 'pending', detail: `已解析 ${modules} 个模块` },
+    { id: 'o3', label: '校验笔记结构', status: allDone ? 'completed' : finished > 0 ? 'running' : 'pending', detail: `${finished}/${total} 个笔记完成` }
+  ];
+};
+
+const REGENERATE_STAGE_LABELS: Record<RegenerateStage, string> = {
+  organize: '仅重新整理结构',
+  design: '仅重新设计指令',
+  paint: '仅重新绘制'
+};
+
+// 处理中的阶段在刷新后无法继续，需要回退到最近的可确认阶段
+const TRANSIENT_STAGES = [Stage.Splitting, Stage.Organizing, Stage.Designing, Stage.Painting, Stage.BatchProcessing];
+
+const deriveResumeStage = (notes: NoteUnit[]): Stage => {
+  if (notes.length === 0) return Stage.Input;
+  if (notes.every(n => n.finalImage)) return Stage.Done;
+  if (notes.every(n => n.generatedPrompt)) return Stage.ReviewPrompt;
+  if (notes.every(n => n.structure)) return Stage.ReviewStructure;
+  return Stage.ReviewSplit;
+};
+
+const RESUME_COMPONENTS: Partial<Record<Stage, { role: RoleType; componentType: string }>> = {
+  [Stage.ReviewSplit]: { role: 'organizer', componentType: 'split_review' },
+  [Stage.ReviewStructure]: { role: 'designer', componentType: 'style_select' },
+  [Stage.ReviewPrompt]: { role: 'painter', componentType: 'paint_confirmation' },
+  [Stage.Done]: { role: 'painter', componentType: 'final_result' }
+};
+
+const resumeSession = (session: SessionRecord): { stage: Stage; notes: NoteUnit[]; chatHistory: ChatItem[] } => {
+  const notes = session.notes.map(n => n.isProcessing ? { ...n, isProcessing: false } : n);
+  let chatHistory = session.chatHistory.filter(item => item.componentType !== 'batch_progress');
+  if (!TRANSIENT_STAGES.includes(session.stage)) {
+    return { stage: session.stage, notes, chatHistory };
+  }
+
+  const stage = deriveResumeStage(notes);
+  const resume = RESUME_COMPONENTS[stage];
+  if (resume && !chatHistory.some(item => item.componentType === resume.componentType)) {
+    chatHistory = [
+      ...chatHistory,
+      { id: uuidv4(), type: 'role_message', role: resume.role, content: '已恢复上次中断的会话，可以从这里继续。', timestamp: Date.now() },
+      { id: uuidv4(), type: 'component', componentType: resume.componentType as ChatItem['componentType'] }
+    ];
+  }
+  return { stage, notes, chatHistory };
+};
+
 // --- LEGACY MASTER COMPONENT (Kept for reference or transition) ---
 
 // --- APP COMPONENT ---
@@ -537,14 +553,62 @@ const App = () => {
   const [rawText, setRawText] = useState('');
   const [savedOriginalText, setSavedOriginalText] = useState(''); // 保存原始输入，用于右边面板显示
   const [notes, setNotes] = useState<NoteUnit[]>([]); // New: Array of notes
-  const [visualSettings, setVisualSettings] = useState<VisualSettings>({ styleId: 'healing', colorTheme: '', watermark: '' });
+  const [visualSettings, setVisualSettings] = useState<VisualSettings>(DEFAULT_VISUAL_SETTINGS);
   // Legacy state removed or ignored in favor of notes
 
   // Chat History State
-  const [chatHistory, setChatHistory] = useState<ChatItem[]>([
-    { id: 'init', type: 'role_message', role: 'organizer', content: '你好！请在下方输入内容，我将为您提炼核心要点。' },
-    { id: 'input', type: 'component', componentType: 'input_form' }
-  ]);
+  const [chatHistory, setChatHistory] = useState<ChatItem[]>(INITIAL_CHAT);
+
+  // Session State (persisted to IndexedDB)
+  const [sessionId, setSessionId] = useState(() => uuidv4());
+  const [sessionCreatedAt, setSessionCreatedAt] = useState(() => Date.now());
+  const [sessionName, setSessionName] = useState('');
+  const [showLibrary, setShowLibrary] = useState(false);
+
+  // Model provider settings (persisted to localStorage)
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+
+  // Style presets: built-ins plus user styles (persisted to localStorage)
+  const [customStyles, setCustomStyles] = useState<StylePreset[]>(loadCustomStyles);
+  const [showStyleManager, setShowStyleManager] = useState(false);
+  const allStyles = [...BUILTIN_STYLES, ...customStyles];
+  const selectedStyle = findStyle(allStyles, visualSettings.styleId);
+
+  // Text legibility check after AI painting (persisted to localStorage)
+  const [legibility, setLegibility] = useState<LegibilitySettings>(loadLegibilitySettings);
+  // AI / 混合绘制时每个笔记请求的候选张数
+  const [candidateCount, setCandidateCount] = useState(loadCandidateCount);
+  // 模型单价（persisted to localStorage）与不属于单个笔记的用量（如拆分）
+  const [modelPrices, setModelPrices] = useState<ModelPrice[]>(loadModelPrices);
+  const [sessionUsage, setSessionUsage] = useState<UsageEntry[]>([]);
+  const [showCostDashboard, setShowCostDashboard] = useState(false);
+  // "重新生成全部"重跑的阶段
+  const [regenerateFrom, setRegenerateFrom] = useState<RegenerateStage>('paint');
+
+  // Palette / watermark panel: 'global' edits the batch defaults, otherwise a note id
+  const [designTarget, setDesignTarget] = useState<string | null>(null);
+  // 结构撤销栈（按笔记，仅内存）与版本历史面板
+  const [undoStacks, setUndoStacks] = useState<Record<string, UndoStack>>({});
+  const [versionTarget, setVersionTarget] = useState<string | null>(null);
+  // 流式整理的实时进度（按笔记，仅内存）
+  const [organizeProgress, setOrganizeProgress] = useState<Record<string, OrganizeProgress>>({});
+  // 批量整理 / 绘制共用的任务队列（仅内存）
+  const [queueState, setQueueState] = useState<QueueState>({ jobs: [], paused: false, concurrency: DEFAULT_CONCURRENCY });
+  const jobQueueRef = useRef<JobQueue | null>(null);
+  if (!jobQueueRef.current) jobQueueRef.current = createJobQueue(uuidv4, setQueueState);
+  const jobQueue = jobQueueRef.current;
+  // 排队的任务开始时读取笔记的最新状态，而不是入队时的快照
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+
+  // Split settings (per run)
+  const [splitMode, setSplitMode] = useState<SplitMode>('ai');
+  const [splitOptions, setSplitOptions] = useState<SplitOptions>(DEFAULT_SPLIT_OPTIONS);
+
+  // File import state for the input area
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [importingFile, setImportingFile] = useState<string | null>(null);
 
   // Ref for auto-scrolling chat stream
   const chatStreamRef = useRef<HTMLDivElement>(null);
@@ -556,6 +620,15 @@ const App = () => {
     }
   }, [chatHistory, stage]);
 
+  // Auto-save current session (debounced); empty sessions are not stored
+  useEffect(() => {
+    if (!savedOriginalText && notes.length === 0) return;
+    const timer = setTimeout(() => {
+      saveSession(currentSession()).catch(e => console.error('Failed to save session', e));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [sessionId, sessionName, notes, chatHistory, visualSettings, rawText, savedOriginalText, stage, sessionUsage]);
+
   // Legacy single-note state (kept for compatibility or mapped to notes[0])
   // We will primarily use 'notes' array now.
 
@@ -564,6 +637,8 @@ const App = () => {
   const [designConfirmed, setDesignConfirmed] = useState(false);
 
   const checkApiKey = async () => {
+    // 自托管的 OpenAI 兼容服务不需要 Gemini Key
+    if (!needsGeminiKey(providerSettings)) return true;
     try {
       const aiStudio = (window as any).aistudio as AIStudioClient | undefined;
       if (aiStudio && !(await aiStudio.hasSelectedApiKey())) {
@@ -571,22 +646,229 @@ const App = () => {
         return await aiStudio.hasSelectedApiKey();
       }
     } catch (e) { }
-    return !!(
-      process.env.API_KEY ||
-      process.env.GEMINI_API_KEY ||
-      (import.meta as any)?.env?.VITE_API_KEY ||
-      (import.meta as any)?.env?.VITE_GEMINI_API_KEY
-    );
+    return !!resolveGeminiKey();
+  };
+
+  // 每次成功调用的用量记到所属笔记上；不属于单个笔记的调用记到会话
+  const recordUsage = (noteId: string | undefined, stage: UsageStage, usage: Usage) => {
+    if (noteId) {
+      setNotes(prev => prev.map(n => n.id === noteId ? { ...n, usage: addUsage(n.usage, stage, usage) } : n));
+    } else {
+      setSessionUsage(prev => addUsage(prev, stage, usage));
+    }
+  };
+
+  const getProviders = (noteId?: string) => ({
+    text: withUsageMeter(withRetryPolicy(createProvider(providerSettings.text)), (stage, usage) => recordUsage(noteId, stage, usage)),
+    image: withUsageMeter(withRetryPolicy(createProvider(providerSettings.image)), (stage, usage) => recordUsage(noteId, stage, usage))
+  });
+
+  const handleSaveProviderSettings = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+    setShowProviderSettings(false);
+  };
+
+  const handleSaveModelPrices = (prices: ModelPrice[]) => {
+    setModelPrices(prices);
+    saveModelPrices(prices);
+  };
+
+  const updateCandidateCount = (count: number) => {
+    setCandidateCount(count);
+    saveCandidateCount(count);
+  };
+
+  const updateLegibility = (updates: Partial<LegibilitySettings>) => {
+    const next = { ...legibility, ...updates };
+    setLegibility(next);
+    saveLegibilitySettings(next);
+  };
+
+  const handleCustomStylesChange = (styles: StylePreset[]) => {
+    setCustomStyles(styles);
+    saveCustomStyles(styles);
+  };
+
+  // --- DESIGN SETTINGS ---
+
+  // 已生成但尚未绘制的绘图指令随配色 / 水印变化重新生成（手动修改过的指令保持不变）
+  const refreshPrompt = (note: NoteUnit, settings: VisualSettings): Partial<NoteUnit> =>
+    note.structure && note.generatedPrompt && !note.promptEdited && note.stage < Stage.Painting
+      ? { generatedPrompt: processRightBrain(note.structure, resolveVisualSettings(settings, note.design), selectedStyle), promptStale: false }
+      : {};
+
+  const handleSaveDesign = (design: Required<NoteDesign>) => {
+    if (designTarget === 'global') {
+      const settings = { ...visualSettings, ...design };
+      setVisualSettings(settings);
+      setNotes(prev => prev.map(n => n.design ? n : { ...n, ...refreshPrompt(n, settings) }));
+    } else {
+      setNotes(prev => prev.map(n => n.id === designTarget ? { ...n, design, ...refreshPrompt({ ...n, design }, visualSettings) } : n));
+    }
+    setDesignTarget(null);
+  };
+
+  // 当前设置下模板生成的绘图指令，用于对比与"恢复模板"
+  const getTemplatePrompt = (note: NoteUnit): string | undefined =>
+    note.structure ? processRightBrain(note.structure, resolveVisualSettings(visualSettings, note.design), selectedStyle) : undefined;
+
+  const handleResetNoteDesign = () => {
+    setNotes(prev => prev.map(n => n.id === designTarget ? { ...n, design: undefined, ...refreshPrompt({ ...n, design: undefined }, visualSettings) } : n));
+    setDesignTarget(null);
+  };
+
+  // --- SESSION ACTIONS ---
+
+  // 切换会话时取消上一个会话未完成的任务
+  const resetJobQueue = () => {
+    jobQueue.cancelAll();
+    jobQueue.clearFinished();
+    jobQueue.resume();
   };
 
-  const getAI = () => new GoogleGenAI({
-    apiKey:
-      process.env.API_KEY ||
-      process.env.GEMINI_API_KEY ||
-      (import.meta as any)?.env?.VITE_API_KEY ||
-      (import.meta as any)?.env?.VITE_GEMINI_API_KEY
+  const startNewSession = () => {
+    setSessionId(uuidv4());
+    setSessionCreatedAt(Date.now());
+    setSessionName('');
+    setStage(Stage.Input);
+    setRawText('');
+    setSavedOriginalText('');
+    setNotes([]);
+    setChatHistory(INITIAL_CHAT);
+    setVisualSettings(DEFAULT_VISUAL_SETTINGS);
+    setSessionUsage([]);
+    setUndoStacks({});
+    resetJobQueue();
+    setShowLibrary(false);
+  };
+
+  const currentSession = (): SessionRecord => ({
+    id: sessionId,
+    name: sessionName || defaultSessionName(savedOriginalText),
+    createdAt: sessionCreatedAt,
+    updatedAt: Date.now(),
+    stage,
+    rawText,
+    savedOriginalText,
+    notes,
+    chatHistory,
+    visualSettings,
+    usage: sessionUsage
   });
 
+  const applySession = (session: SessionRecord) => {
+    const resumed = resumeSession(session);
+    setSessionId(session.id);
+    setSessionCreatedAt(session.createdAt);
+    setSessionName(session.name);
+    setRawText(session.rawText);
+    setSavedOriginalText(session.savedOriginalText);
+    setVisualSettings({ ...DEFAULT_VISUAL_SETTINGS, ...session.visualSettings });
+    setNotes(resumed.notes);
+    setChatHistory(resumed.chatHistory);
+    setStage(resumed.stage);
+    setSessionUsage(session.usage || []);
+    setUndoStacks({});
+    resetJobQueue();
+    setShowLibrary(false);
+  };
+
+  const openSession = async (id: string) => {
+    const session = await getSession(id);
+    if (session) applySession(session);
+  };
+
+  const handleExportBundle = () => {
+    const session = currentSession();
+    const url = URL.createObjectURL(exportBundle(session, customStyles));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = bundleFileName(session.name);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImportBundle = async (file: File) => {
+    try {
+      const { styles, ...bundled } = await importBundle(file);
+      // 项目包用到的自定义风格并入本地风格库
+      const merged = mergeBundledStyles(customStyles, styles, uuidv4);
+      if (merged.styles.length !== customStyles.length) handleCustomStylesChange(merged.styles);
+      const styleId = bundled.visualSettings.styleId;
+      const contents = { ...bundled, visualSettings: { ...bundled.visualSettings, styleId: merged.idMap[styleId] || styleId } };
+      const stage = deriveResumeStage(contents.notes);
+      const resume = RESUME_COMPONENTS[stage];
+      const now = Date.now();
+      const session: SessionRecord = {
+        ...contents,
+        id: uuidv4(),
+        createdAt: now,
+        updatedAt: now,
+        stage,
+        rawText: '',
+        chatHistory: [
+          { id: uuidv4(), type: 'role_message', role: 'organizer', content: `已导入项目「${contents.name}」，共 ${contents.notes.length} 个笔记单元。`, timestamp: now },
+          ...(resume ? [{ id: uuidv4(), type: 'component', componentType: resume.componentType } as ChatItem] : [])
+        ]
+      };
+      await saveSession(session);
+      applySession(session);
+    } catch (e: any) {
+      console.error('Bundle import failed', e);
+      alert(`导入失败：${e?.message || e}`);
+    }
+  };
+
+  // --- INPUT IMPORT ---
+
+  // 导入的文本：输入框为空时直接替换，否则以空行分隔追加
+  const appendImportedText = (text: string) => {
+    if (!text) return;
+    setRawText(prev => prev.trim() ? `${prev.replace(/\s+$/, '')}\n\n${text}` : text);
+  };
+
+  const handleImportFiles = async (files: File[]) => {
+    for (const file of files) {
+      if (!isSupportedFile(file)) {
+        alert(`不支持的文件类型：${file.name}（支持 ${SUPPORTED_EXTENSIONS.join(' ')}）`);
+        continue;
+      }
+      setImportingFile(file.name);
+      try {
+        const text = await extractTextFromFile(file);
+        if (!text) alert(`未能从 ${file.name} 中提取到文本（扫描版 PDF 需先进行 OCR）`);
+        appendImportedText(text);
+      } catch (e: any) {
+        console.error('File import failed', e);
+        alert(`导入 ${file.name} 失败：${e?.message || e}`);
+      } finally {
+        setImportingFile(null);
+      }
+    }
+  };
+
+  const handleInputDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    setIsDraggingFile(false);
+    if (e.dataTransfer.files.length === 0) return; // 普通文本拖放交给默认行为
+    e.preventDefault();
+    handleImportFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // 网页文章粘贴：保留标题 / 段落 / 列表结构，转换为 Markdown
+  const handleInputPaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = e.clipboardData.getData('text/html');
+    if (!html || !hasBlockStructure(html)) return;
+    const markdown = htmlToMarkdown(html);
+    if (!markdown) return;
+    e.preventDefault();
+    const el = e.currentTarget;
+    const { selectionStart, selectionEnd } = el;
+    setRawText(prev => prev.slice(0, selectionStart) + markdown + prev.slice(selectionEnd));
+  };
+
   // --- ACTIONS ---
 
   const handleOrganize = async () => {
@@ -610,36 +892,14 @@ const App = () => {
 
     // Add process log
     const processId = uuidv4();
-    const initialSteps: ProcessStep[] = [
-      { id: 'p1', label: '正在分析文本结构...', status: 'running' },
-      { id: 'p2', label: '提炼核心知识点...', status: 'pending' },
-      { id: 'p3', label: '构建视觉逻辑框架...', status: 'pending' }
-    ];
-    setChatHistory(prev => [...prev, { id: processId, type: 'process_log', role: 'organizer', steps: initialSteps }]);
+    setChatHistory(prev => [...prev, { id: processId, type: 'process_log', role: 'organizer', steps: organizeSteps(0, 0, 0, 1) }]);
 
     try {
-      const ai = getAI();
+      const providers = getProviders();
 
-      // Simulate step updates (mocking progress)
-      setTimeout(() => {
-        setChatHistory(prev => prev.map(item => {
-          if (item.id === processId && item.steps) {
-            // Prevent race condition: if already completed, don't revert
-            if (item.steps.every(s => s.status === 'completed')) return item;
-
-            return {
-              ...item, steps: [
-                { ...item.steps[0], status: 'completed' },
-                { ...item.steps[1], status: 'running' },
-                item.steps[2]
-              ]
-            };
-          }
-          return item;
-        }));
-      }, 1500);
-
-      const res = await processLeftBrain(ai, inputText);
+      const res = await processLeftBrain(providers.text, inputText, undefined, progress =>
+        setProcessSteps(processId, organizeSteps(progress.tokens, progress.modules.length, 0, 1))
+      );
 
       // Initialize notes with the result
       setNotes([{
@@ -667,9 +927,9 @@ const App = () => {
       ]);
 
       setStage(Stage.ReviewStructure);
-    } catch (e) {
+    } catch (e: any) {
       console.error(e);
-      alert("整理失败，请重试");
+      alert(`整理失败，请重试\n${describeError(e)}`);
       setStage(Stage.Input);
       // Reset chat to input state? Or just add error message.
     }
@@ -700,6 +960,16 @@ const App = () => {
     setNotes(prev => prev.map(n => n.id === id ? { ...n, ...updates } : n));
   };
 
+  // 不传 progress 时清除该笔记的流式进度
+  const setProgressOf = (id: string, progress?: OrganizeProgress) =>
+    setOrganizeProgress(prev => {
+      const { [id]: _, ...rest } = prev;
+      return progress ? { ...rest, [id]: progress } : rest;
+    });
+
+  const setProcessSteps = (processId: string, steps: ProcessStep[]) =>
+    setChatHistory(prev => prev.map(item => item.id === processId ? { ...item, steps } : item));
+
   const handleSplit = async () => {
     console.log("Starting handleSplit");
     if (!rawText.trim()) return;
@@ -735,7 +1005,7 @@ const App = () => {
 
     setStage(Stage.Splitting);
     try {
-      const ai = getAI();
+      const providers = getProviders();
 
       // 模拟步骤更新
       setTimeout(() => {
@@ -756,7 +1026,10 @@ const App = () => {
         }));
       }, 1000);
 
-      const parts = await processSplitBrain(ai, inputText);
+      const { parts, method } = splitMode === 'local'
+        ? { parts: splitTextLocally(inputText, splitOptions), method: 'local' as SplitMode }
+        : await processSplitBrain(providers.text, inputText, clampSplitOptions(splitOptions));
+      const fellBack = splitMode === 'ai' && method === 'local';
 
       // 完成所有步骤
       setChatHistory(prev => prev.map(item => {
@@ -770,7 +1043,7 @@ const App = () => {
         id: uuidv4(),
         order: i + 1,
         originalText: text,
-        stage: Stage.Organizing,
+        stage: Stage.ReviewSplit,
         isProcessing: false
       }));
 
@@ -779,7 +1052,12 @@ const App = () => {
       // 添加整理大师的回复和拆分预览组件
       setChatHistory(prev => [
         ...prev,
-        { id: uuidv4(), type: 'role_message', role: 'organizer', content: `文本分析完成！已智能拆分为 ${parts.length} 个笔记单元，请确认后开始整理。`, timestamp: Date.now() },
+        {
+          id: uuidv4(), type: 'role_message', role: 'organizer', timestamp: Date.now(),
+          content: fellBack
+            ? `AI 拆分结果不可用，已改用本地规则拆分为 ${parts.length} 个笔记单元，请确认后开始整理。`
+            : `文本分析完成！已${method === 'local' ? '按本地规则' : '智能'}拆分为 ${parts.length} 个笔记单元，请确认后开始整理。`
+        },
         { id: uuidv4(), type: 'component', componentType: 'split_review' }
       ]);
 
@@ -788,13 +1066,91 @@ const App = () => {
       console.error(e);
       setChatHistory(prev => [
         ...prev,
-        { id: uuidv4(), type: 'role_message', role: 'organizer', content: '抱歉，处理过程中出现了问题，请重试。', timestamp: Date.now() }
+        { id: uuidv4(), type: 'role_message', role: 'organizer', content: `抱歉，处理过程中出现了问题，请重试。\n${describeError(e)}`, timestamp: Date.now() }
       ]);
       setStage(Stage.Input);
     }
   };
 
+  // 拆分确认阶段的单元管理
+  const splitActions: SplitActions = {
+    splitAt: (id, position) => setNotes(prev => splitNoteAt(prev, id, position, uuidv4())),
+    mergeWithNext: (id) => setNotes(prev => mergeWithNext(prev, id)),
+    move: (from, to) => setNotes(prev => moveNote(prev, from, to)),
+    remove: (id) => setNotes(prev => removeNote(prev, id)),
+    add: () => setNotes(prev => appendNote(prev, uuidv4()))
+  };
+
+  // 结构编辑的撤销 / 重做与版本历史
+  const recordUndo = (id: string, previous: LeftBrainData, typing: boolean) =>
+    setUndoStacks(prev => ({ ...prev, [id]: recordChange(prev[id], previous, typing) }));
+
+  const stepStructure = (id: string, step: typeof undoChange) => {
+    const note = notes.find(n => n.id === id);
+    const stack = undoStacks[id];
+    if (!note?.structure || !stack) return;
+    const result = step(stack, note.structure);
+    if (!result) return;
+    setUndoStacks(prev => ({ ...prev, [id]: result.stack }));
+    updateNote(id, withStructure(note, result.structure));
+  };
+
+  const structureActions: StructureActions = {
+    edit: (id, structure) => {
+      const note = notes.find(n => n.id === id);
+      if (!note?.structure) return;
+      recordUndo(id, note.structure, true);
+      updateNote(id, withStructure(note, structure));
+    },
+    undo: (id) => stepStructure(id, undoChange),
+    redo: (id) => stepStructure(id, redoChange),
+    canUndo: (id) => !!undoStacks[id]?.past.length,
+    canRedo: (id) => !!undoStacks[id]?.future.length,
+    openVersions: setVersionTarget
+  };
+
+  // 结构编辑器里的单模块 AI 操作，以笔记原文为依据；结果由编辑器预览后再写回
+  const handleModuleAction = async (note: NoteUnit, action: ModuleActionType, modules: ContentModule[], language?: string): Promise<ContentModule[]> => {
+    if (!(await checkApiKey())) throw new Error('请先配置可用的模型 Key');
+    const result = await runModuleAction(getProviders(note.id).text, { action, modules, originalText: note.originalText, language });
+    // 改写后的模块沿用原模块的原文来源
+    const sources = mergeSources(modules);
+    return result.map(m => ({ ...m, id: uuidv4(), ...(sources ? { sources } : {}) }));
+  };
+
+  const aiVersion = (structure: LeftBrainData): StructureVersion =>
+    ({ id: uuidv4(), name: 'AI 整理', createdAt: Date.now(), source: 'ai', structure });
+
+  const versionNote = notes.find(n => n.id === versionTarget);
+
+  const handleSaveVersion = (name: string) => {
+    if (!versionNote?.structure) return;
+    updateNote(versionNote.id, {
+      structureVersions: addVersion(versionNote.structureVersions, { id: uuidv4(), name, createdAt: Date.now(), source: 'edit', structure: versionNote.structure })
+    });
+  };
+
+  // 恢复版本与重新整理一样回到结构确认阶段，旧结构可撤销找回
+  const handleRestoreVersion = (version: StructureVersion) => {
+    if (!versionNote?.structure) return;
+    recordUndo(versionNote.id, versionNote.structure, false);
+    updateNote(versionNote.id, { ...withStructure(versionNote, version.structure), stage: Math.min(versionNote.stage, Stage.ReviewStructure) });
+    setVersionTarget(null);
+  };
+
+  const handleDeleteVersion = (versionId: string) => {
+    if (!versionNote) return;
+    updateNote(versionNote.id, { structureVersions: versionNote.structureVersions?.filter(v => v.id !== versionId) });
+  };
+
+  const splitCoversOriginal = coversText(notes.map(n => n.originalText), savedOriginalText);
+  const hasEmptySplit = notes.some(n => !n.originalText.trim());
+  const inputWarning = inputSizeWarning(rawText.length, splitMode, splitOptions.maxLength);
+
   const handleConfirmSplit = () => {
+    if (notes.length === 0 || hasEmptySplit) return;
+    if (!splitCoversOriginal && !window.confirm('当前片段拼接后与原文不一致（有增删改动），仍要继续整理吗？')) return;
+
     // 添加用户确认消息
     setChatHistory(prev => [
       ...prev.filter(item => item.componentType !== 'split_review'),
@@ -805,50 +1161,86 @@ const App = () => {
     handleBatchOrganize();
   };
 
+  // 加入任务队列；任务被取消时恢复笔记原来的阶段
+  // 取消时默认回到入队前的阶段；跨多个阶段的任务可以给出已完成到哪一步
+  const enqueueJob = async (
+    note: NoteUnit,
+    kind: JobKind,
+    run: (signal: AbortSignal) => Promise<void>,
+    cancelledAt: () => Pick<NoteUnit, 'stage' | 'errorStage'> = () => ({ stage: note.stage, errorStage: kind })
+  ): Promise<JobStatus> => {
+    const status = await jobQueue.add(note.id, kind, run);
+    if (status === 'cancelled') updateNote(note.id, { isProcessing: false, error: CANCELLED_REASON, ...cancelledAt() });
+    return status;
+  };
+
   const handleBatchOrganize = async () => {
     // 添加处理过程日志
     const processId = uuidv4();
+    // 已整理的单元（例如恢复的会话）不重复处理
+    const pending = notes.filter(n => !n.structure && !jobQueue.hasActiveJob(n.id));
+    jobQueue.clearFinished();
     setChatHistory(prev => [
       ...prev,
-      {
-        id: processId, type: 'process_log', role: 'organizer', steps: [
-          { id: 'b1', label: '批量整理笔记结构', status: 'running' },
-          { id: 'b2', label: '提炼核心知识点', status: 'pending' },
-          { id: 'b3', label: '生成视觉框架', status: 'pending' }
-        ]
-      }
+      { id: processId, type: 'process_log', role: 'organizer', steps: organizeSteps(0, 0, 0, pending.length) },
+      { id: uuidv4(), type: 'component', componentType: 'batch_progress' }
     ]);
 
-    const ai = getAI();
+    // 汇总各笔记的流式进度写入过程日志
+    const received: Record<string, OrganizeProgress> = {};
+    let finished = 0;
+    const reportSteps = () => {
+      const progress = Object.values(received);
+      setProcessSteps(processId, organizeSteps(
+        progress.reduce((sum, p) => sum + p.tokens, 0),
+        progress.reduce((sum, p) => sum + p.modules.length, 0),
+        finished,
+        pending.length
+      ));
+    };
 
-    const processNoteStructure = async (note: NoteUnit) => {
-      updateNote(note.id, { isProcessing: true });
+    const processNoteStructure = async (note: NoteUnit, signal: AbortSignal) => {
+      updateNote(note.id, { isProcessing: true, error: undefined, errorStage: undefined, stage: Stage.Organizing });
       try {
-        const res = await processLeftBrain(ai, note.originalText);
+        const res = await processLeftBrain(getProviders(note.id).text, note.originalText, signal, progress => {
+          received[note.id] = progress;
+          setProgressOf(note.id, progress);
+          reportSteps();
+        });
+        signal.throwIfAborted();
         updateNote(note.id, {
           structure: res,
+          structureVersions: addVersion(note.structureVersions, aiVersion(res)),
           stage: Stage.ReviewStructure,
           isProcessing: false
         });
-      } catch (e) {
-        updateNote(note.id, { isProcessing: false, error: "结构整理失败" });
+      } catch (e: any) {
+        if (!signal.aborted) updateNote(note.id, { isProcessing: false, error: describeError(e), errorStage: 'organize' });
+        throw e;
+      } finally {
+        setProgressOf(note.id);
       }
     };
 
-    await Promise.all(notes.map(n => processNoteStructure(n)));
-
-    // 完成处理过程
-    setChatHistory(prev => prev.map(item => {
-      if (item.id === processId && item.steps) {
-        return { ...item, steps: item.steps.map(s => ({ ...s, status: 'completed' })) };
-      }
-      return item;
+    const statuses = await Promise.all(pending.map(async n => {
+      const status = await enqueueJob(n, 'organize', signal => processNoteStructure(n, signal));
+      finished++;
+      reportSteps();
+      return status;
     }));
+    const counts = countStatuses(statuses);
+    const hasFailures = counts.done < statuses.length;
 
     // 添加成功消息和风格选择
     setChatHistory(prev => [
-      ...prev,
-      { id: uuidv4(), type: 'role_message', role: 'organizer', content: `所有笔记结构整理完成！请在右侧查看预览。`, timestamp: Date.now() },
+      ...prev.filter(item => item.componentType !== 'batch_progress'),
+      {
+        id: uuidv4(), type: 'role_message', role: 'organizer', timestamp: Date.now(),
+        content: hasFailures
+          ? `整理结束：成功 ${counts.done} 个，失败 ${counts.failed} 个，取消 ${counts.cancelled} 个。失败原因见右侧卡片，可以只重试失败的笔记。`
+          : `所有笔记结构整理完成！请在右侧查看预览。`
+      },
+      ...(hasFailures ? [{ id: uuidv4(), type: 'component', componentType: 'batch_summary' } as ChatItem] : []),
       { id: uuidv4(), type: 'role_message', role: 'designer', content: '你好！我是视觉设计大师。请选择您喜欢的视觉风格：', timestamp: Date.now() },
       { id: uuidv4(), type: 'component', componentType: 'style_select' }
     ]);
@@ -858,10 +1250,9 @@ const App = () => {
 
   const handleBatchDesign = () => {
     // 移除风格选择组件，添加用户选择消息
-    const selectedStyle = STYLES.find(s => s.id === visualSettings.styleId);
     setChatHistory(prev => [
       ...prev.filter(item => item.componentType !== 'style_select'),
-      { id: uuidv4(), type: 'user_message', content: `选择风格：${selectedStyle?.name || '默认'} `, timestamp: Date.now() },
+      { id: uuidv4(), type: 'user_message', content: `选择风格：${selectedStyle.name} · ${findLayout(visualSettings.layout).name} · ${visualSettings.aspectRatio}`, timestamp: Date.now() },
       {
         id: uuidv4(), type: 'process_log', role: 'designer', steps: [
           { id: 'd1', label: '分析视觉元素', status: 'completed' },
@@ -878,9 +1269,10 @@ const App = () => {
       updateNote(note.id, { isProcessing: true });
 
       setTimeout(() => {
-        const prompt = processRightBrain(note.structure!, visualSettings);
+        const prompt = processRightBrain(note.structure!, resolveVisualSettings(visualSettings, note.design), selectedStyle);
         updateNote(note.id, {
           generatedPrompt: prompt,
+          promptEdited: false,
           stage: Stage.ReviewPrompt,
           isProcessing: false
         });
@@ -901,8 +1293,64 @@ const App = () => {
     }, 1000);
   };
 
+  // AI 绘制后读回每张候选图的文字打分，全部低于阈值时在预算内自动重绘；所有候选都保留到历史中
+  const paintWithVerification = async (providers: { text: TextProvider; image: ImageProvider }, prompt: string, structure: LeftBrainData, settings: VisualSettings, signal?: AbortSignal): Promise<PaintedImage[]> => {
+    const painted: PaintedImage[] = [];
+    for (let attempt = 1; attempt <= 1 + legibility.maxRetries; attempt++) {
+      const images = await processHand(providers.image, prompt, selectedStyle, settings, structure.modules.length, false, candidateCount, signal);
+      if (!legibility.enabled) return images.map(image => ({ image }));
+      try {
+        for (const image of images) {
+          painted.push({ image, fidelity: scoreFidelity(structure, await readImageText(providers.text, image, signal), attempt) });
+        }
+      } catch (e) {
+        signal?.throwIfAborted();
+        // 校验失败不影响出图
+        console.warn('Legibility check failed', e);
+        return [...painted, ...images.filter(image => !painted.some(p => p.image === image)).map(image => ({ image }))];
+      }
+      const bestScore = Math.max(...painted.map(p => p.fidelity!.score));
+      if (bestScore >= legibility.threshold) break;
+      console.warn(`Text fidelity ${bestScore.toFixed(2)} below threshold, attempt ${attempt}`);
+    }
+    return painted;
+  };
+
+  // 按笔记选择的绘制方式出图：AI 图像模型使用（可能被手动修改过的）绘图指令，本地排版直接使用结构，
+  // 混合模式先让模型画无文字底图，再叠加本地排版的文字（后两者文字精确，无需校验）
+  const paintImage = async (providers: { text: TextProvider; image: ImageProvider }, note: NoteUnit, prompt: string, structure: LeftBrainData, signal?: AbortSignal): Promise<PaintedImage[]> => {
+    const settings = resolveVisualSettings(visualSettings, note.design);
+    switch (note.renderMode) {
+      case 'local':
+        // 本地排版结果确定，无需多张候选
+        return [{ image: await renderLocalNote(structure, settings, selectedStyle) }];
+      case 'hybrid': {
+        const backgroundPrompt = processBackgroundBrain(structure, settings, selectedStyle);
+        const backgrounds = await processHand(providers.image, backgroundPrompt, selectedStyle, settings, structure.modules.length, true, candidateCount, signal);
+        return Promise.all(backgrounds.map(async backgroundImage => ({
+          image: await renderLocalNote(structure, settings, selectedStyle, { backgroundImage })
+        })));
+      }
+      default:
+        return paintWithVerification(providers, prompt, structure, settings, signal);
+    }
+  };
+
+  // 新生成的候选全部追加到历史，并自动选中最佳的一张作为成图
+  const withPaintedImages = (note: NoteUnit, painted: PaintedImage[]): Partial<NoteUnit> => {
+    const added: NoteImage[] = painted.map(p => ({
+      id: uuidv4(),
+      dataUri: p.image,
+      createdAt: Date.now(),
+      renderMode: note.renderMode || 'ai',
+      fidelity: p.fidelity
+    }));
+    const best = pickBest(added);
+    return { images: appendToHistory(note.images, added, best.dataUri), finalImage: best.dataUri, fidelity: best.fidelity };
+  };
+
   const handleBatchPaint = async () => {
-    if (!(await checkApiKey())) return;
+    if (notes.some(n => n.renderMode !== 'local') && !(await checkApiKey())) return;
 
     // 添加开始绘制消息
     setChatHistory(prev => [
@@ -912,68 +1360,180 @@ const App = () => {
     ]);
 
     setStage(Stage.Painting);
+    jobQueue.clearFinished();
 
-    const ai = getAI();
-
-    const paintNote = async (note: NoteUnit) => {
-      if (!note.generatedPrompt) return;
-      updateNote(note.id, { isProcessing: true });
+    const paintNote = async (note: NoteUnit, prompt: string, structure: LeftBrainData, signal: AbortSignal) => {
+      updateNote(note.id, { isProcessing: true, error: undefined, errorStage: undefined });
 
       try {
-        const img = await processHand(ai, note.generatedPrompt, visualSettings.styleId);
+        const painted = await paintImage(getProviders(note.id), note, prompt, structure, signal);
+        signal.throwIfAborted();
         updateNote(note.id, {
-          finalImage: img,
+          ...withPaintedImages(notesRef.current.find(n => n.id === note.id) || note, painted),
+          imageStale: false,
           stage: Stage.Done,
           isProcessing: false
         });
       } catch (e) {
-        updateNote(note.id, { isProcessing: false, error: "绘制失败" });
+        if (!signal.aborted) updateNote(note.id, { isProcessing: false, error: `绘制失败：${describeError(e)}`, errorStage: 'paint' });
+        throw e;
       }
     };
 
-    const chunk = (arr: any[], size: number) =>
-      Array.from({ length: Math.ceil(arr.length / size) }, (v, i) =>
-        arr.slice(i * size, i * size + size)
-      );
-
-    const chunks = chunk(notes, 3);
-    for (const c of chunks) {
-      await Promise.all(c.map(n => paintNote(n)));
-    }
+    // 已绘制的单元（例如恢复的会话）不重复绘制
+    const statuses = await Promise.all(notes
+      .filter(n => n.generatedPrompt && n.structure && !n.finalImage && !jobQueue.hasActiveJob(n.id))
+      .map(n => enqueueJob(n, 'paint', signal => paintNote(n, n.generatedPrompt!, n.structure!, signal))));
+    const counts = countStatuses(statuses);
 
     // 添加完成消息
     setChatHistory(prev => [
       ...prev.filter(item => item.componentType !== 'batch_progress'),
-      { id: uuidv4(), type: 'role_message', role: 'painter', content: '🎉 全部绘制完成！请查看右侧的视觉笔记。', timestamp: Date.now() },
+      {
+        id: uuidv4(), type: 'role_message', role: 'painter', timestamp: Date.now(),
+        content: counts.done === statuses.length
+          ? '🎉 全部绘制完成！请查看右侧的视觉笔记。'
+          : `绘制结束：成功 ${counts.done} 张，失败 ${counts.failed} 张，取消 ${counts.cancelled} 张。失败原因见右侧卡片。`
+      },
       { id: uuidv4(), type: 'component', componentType: 'final_result' }
     ]);
 
     setStage(Stage.Done);
   };
 
-  const regenerateNote = async (noteId: string) => {
-    const note = notes.find(n => n.id === noteId);
-    if (!note) return;
-    updateNote(noteId, { isProcessing: true, stage: Stage.Organizing, structure: undefined, generatedPrompt: undefined, finalImage: undefined });
-    const ai = getAI();
+  // 只重跑指定阶段，保留其他阶段的结果（包括手动编辑），下游结果标记为过期而不是清空；
+  // 缺少上游结果时先补齐上游
+  // 失败或取消时回到最后一个完成的阶段（settled），并记下出错的阶段（running）
+  const runRegenerate = async (note: NoteUnit, from: RegenerateStage, signal: AbortSignal, position: { settled: Stage; running: RegenerateStage }) => {
+    const noteId = note.id;
+    updateNote(noteId, { isProcessing: true, error: undefined, errorStage: undefined });
+    const providers = getProviders(noteId);
+    position.running = 'organize';
     try {
-      const structure = await processLeftBrain(ai, note.originalText);
-      updateNote(noteId, { structure, stage: Stage.Designing });
-      const prompt = processRightBrain(structure, visualSettings);
-      updateNote(noteId, { generatedPrompt: prompt, stage: Stage.ReviewPrompt });
-      const img = await processHand(ai, prompt, visualSettings.styleId);
-      updateNote(noteId, { finalImage: img, stage: Stage.Done, isProcessing: false });
-    } catch (e) {
-      updateNote(noteId, { isProcessing: false, error: "重新生成失败" });
+      let structure = note.structure;
+      let prompt = note.generatedPrompt;
+
+      if (from === 'organize' || !structure) {
+        updateNote(noteId, { stage: Stage.Organizing });
+        structure = await processLeftBrain(providers.text, note.originalText, signal, progress => setProgressOf(noteId, progress));
+        signal.throwIfAborted();
+        setProgressOf(noteId);
+        // 旧结构可撤销找回；未保存过的手动编辑先存为版本
+        let versions = note.structureVersions;
+        if (note.structure) {
+          recordUndo(noteId, note.structure, false);
+          if (!hasVersion(versions, note.structure)) {
+            versions = addVersion(versions, { id: uuidv4(), name: '重新整理前的编辑', createdAt: Date.now(), source: 'edit', structure: note.structure });
+          }
+        }
+        position.settled = Stage.ReviewStructure;
+        updateNote(noteId, {
+          structure,
+          structureVersions: addVersion(versions, aiVersion(structure)),
+          stage: position.settled,
+          promptStale: !!prompt,
+          imageStale: !!note.finalImage
+        });
+        if (from === 'organize') {
+          updateNote(noteId, { isProcessing: false });
+          return;
+        }
+        prompt = undefined;
+      }
+
+      if (from === 'design' || !prompt) {
+        position.running = 'design';
+        updateNote(noteId, { stage: Stage.Designing });
+        prompt = processRightBrain(structure, resolveVisualSettings(visualSettings, note.design), selectedStyle);
+        position.settled = Stage.ReviewPrompt;
+        updateNote(noteId, { generatedPrompt: prompt, promptEdited: false, promptStale: false, stage: position.settled, imageStale: !!note.finalImage });
+        if (from === 'design') {
+          updateNote(noteId, { isProcessing: false });
+          return;
+        }
+      }
+
+      position.running = 'paint';
+      updateNote(noteId, { stage: Stage.Painting });
+      const painted = await paintImage(providers, note, prompt, structure, signal);
+      signal.throwIfAborted();
+      // 绘制期间图片历史可能已变化（其他任务追加、手动选图），在最新的历史上追加
+      const latest = notesRef.current.find(n => n.id === noteId) || note;
+      updateNote(noteId, { ...withPaintedImages(latest, painted), imageStale: false, stage: Stage.Done, isProcessing: false });
+    } catch (e: any) {
+      setProgressOf(noteId);
+      // 取消由 enqueueJob 统一标记
+      if (!signal.aborted) updateNote(noteId, { isProcessing: false, stage: position.settled, error: describeError(e), errorStage: position.running });
+      throw e;
     }
   };
 
-  const regenerateAll = async () => {
-    for (const n of notes) {
-      await regenerateNote(n.id);
-    }
+  // 单个笔记的重新生成同样进入任务队列，可取消，并受并发设置限制
+  const enqueueRegenerate = (note: NoteUnit, from: RegenerateStage): Promise<JobStatus> => {
+    const position = { settled: note.stage, running: from };
+    return enqueueJob(
+      note,
+      from,
+      signal => {
+        const current = notesRef.current.find(n => n.id === note.id);
+        // 排队期间被删除的笔记不再处理
+        if (!current) return Promise.resolve();
+        position.settled = current.stage;
+        return runRegenerate(current, from, signal, position);
+      },
+      () => ({ stage: position.settled, errorStage: position.running })
+    );
+  };
+
+  // 已在队列中的笔记不重复入队
+  const regenerateNote = async (noteId: string, from: RegenerateStage = 'paint') => {
+    const note = notes.find(n => n.id === noteId);
+    if (note && !jobQueue.hasActiveJob(noteId)) await enqueueRegenerate(note, from);
+  };
+
+  // 重新生成全部 / 只重试失败项：与批量整理、绘制一样显示队列进度，可暂停、取消
+  const regenerateBatch = async (targets: { note: NoteUnit; from: RegenerateStage }[], label: string) => {
+    targets = targets.filter(({ note }) => !jobQueue.hasActiveJob(note.id));
+    if (targets.length === 0) return;
+    jobQueue.clearFinished();
+    setChatHistory(prev => [...prev, { id: uuidv4(), type: 'component', componentType: 'batch_progress' }]);
+
+    const statuses = await Promise.all(targets.map(({ note, from }) => enqueueRegenerate(note, from)));
+    const counts = countStatuses(statuses);
+    const hasFailures = counts.done < statuses.length;
+
+    setChatHistory(prev => [
+      ...prev.filter(item => item.componentType !== 'batch_progress'),
+      {
+        id: uuidv4(), type: 'role_message', role: 'painter', timestamp: Date.now(),
+        content: hasFailures
+          ? `${label}结束：成功 ${counts.done} 个，失败 ${counts.failed} 个，取消 ${counts.cancelled} 个。失败原因见右侧卡片。`
+          : `${label}完成，共 ${counts.done} 个笔记。`
+      },
+      ...(hasFailures ? [{ id: uuidv4(), type: 'component', componentType: 'batch_summary' } as ChatItem] : [])
+    ]);
   };
 
+  const regenerateAll = () => regenerateBatch(notes.map(note => ({ note, from: regenerateFrom })), '重新生成');
+
+  const usageTotals = totalUsage(mergeUsage(sessionUsage, ...notes.map(n => n.usage)), modelPrices);
+
+  // 绘制前的费用预估：与 handleBatchPaint 一样跳过已绘制的笔记
+  const paintEstimate = estimatePaintCost(
+    notes
+      .filter(n => n.generatedPrompt && n.structure && !n.finalImage)
+      .map(n => ({
+        renderMode: n.renderMode || 'ai',
+        promptTokens: estimateTokens(n.generatedPrompt! + selectedStyle.instructions) + IMAGE_PROMPT_OVERHEAD_TOKENS
+      })),
+    { imageModel: providerSettings.image.model, textModel: providerSettings.text.model, candidateCount, verify: legibility.enabled },
+    modelPrices
+  );
+
+  // 只重跑失败（或被取消）的笔记，且只重跑出错的那个阶段
+  const failedNotes = notes.filter(n => n.errorStage && !n.isProcessing);
+  const retryFailed = () => regenerateBatch(failedNotes.map(note => ({ note, from: note.errorStage! })), '重试');
+
   const handleBatchDownload = () => {
     notes.forEach((note, index) => {
       if (note.finalImage) {
@@ -991,6 +1551,26 @@ const App = () => {
 
   // --- RENDERERS ---
 
+  // "重新生成全部"重跑的阶段，聊天区与底部操作栏共用
+  const regenerateStageSelect = (
+    <select
+      className="settings-input regenerate-select"
+      value={regenerateFrom}
+      onChange={(e) => setRegenerateFrom(e.target.value as RegenerateStage)}
+      title="重新生成全部时重跑的阶段，其余阶段的结果保留"
+    >
+      {(Object.keys(REGENERATE_STAGE_LABELS) as RegenerateStage[]).map(id => (
+        <option key={id} value={id}>{REGENERATE_STAGE_LABELS[id]}</option>
+      ))}
+    </select>
+  );
+
+  const retryFailedButton = (
+    <button className="confirm-btn btn-compact" onClick={retryFailed} title="只重跑出错的阶段，其他笔记保持不变">
+      🔁 只重试失败的 {failedNotes.length} 个笔记
+    </button>
+  );
+
   return (
     <div className="app-container">
 
@@ -1001,6 +1581,12 @@ const App = () => {
           updateNote={updateNote}
           rawText={savedOriginalText || rawText}
           regenerateNote={regenerateNote}
+          splitActions={stage === Stage.ReviewSplit ? splitActions : undefined}
+          structureActions={structureActions}
+          runModuleAction={handleModuleAction}
+          organizeProgress={organizeProgress}
+          onEditDesign={stage >= Stage.ReviewStructure && stage !== Stage.BatchProcessing ? setDesignTarget : undefined}
+          getTemplatePrompt={getTemplatePrompt}
         />
       </div>
 
@@ -1010,8 +1596,101 @@ const App = () => {
           <h2 style={{ margin: 0, fontSize: '14px', display: 'flex', alignItems: 'center', gap: '6px' }}>
             ⚡️ SoulNote <span style={{ fontSize: '10px', opacity: 0.5, fontWeight: 400 }}>智能笔记工坊</span>
           </h2>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <button className="card-action-btn" onClick={handleExportBundle} disabled={notes.length === 0} title="导出项目包">
+              📦 导出
+            </button>
+            <label className="card-action-btn" title="导入项目包">
+              📥 导入
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                style={{ display: 'none' }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImportBundle(file);
+                }}
+              />
+            </label>
+            <button className="card-action-btn" onClick={() => setShowLibrary(true)} title="会话库">
+              📚 会话库
+            </button>
+            <button className="card-action-btn" onClick={() => setShowStyleManager(true)} title="风格管理">
+              🎨
+            </button>
+            <button className="card-action-btn" onClick={() => setShowCostDashboard(true)} title="用量与费用">
+              💰 {formatCost(usageTotals.cost)}
+            </button>
+            <button className="card-action-btn" onClick={() => setShowProviderSettings(true)} title="模型设置">
+              ⚙️
+            </button>
+          </div>
         </div>
 
+        {showProviderSettings && (
+          <ProviderSettingsPanel
+            settings={providerSettings}
+            onSave={handleSaveProviderSettings}
+            onClose={() => setShowProviderSettings(false)}
+          />
+        )}
+
+        {showCostDashboard && (
+          <CostDashboard
+            notes={notes}
+            sessionUsage={sessionUsage}
+            prices={modelPrices}
+            onSavePrices={handleSaveModelPrices}
+            onClose={() => setShowCostDashboard(false)}
+          />
+        )}
+
+        {showStyleManager && (
+          <StyleManager
+            customStyles={customStyles}
+            onChange={handleCustomStylesChange}
+            onClose={() => setShowStyleManager(false)}
+            newId={uuidv4}
+          />
+        )}
+
+        {designTarget && (
+          <DesignSettingsPanel
+            key={designTarget}
+            title={designTarget === 'global' ? '配色与水印（全部笔记）' : `配色与水印（笔记 #${(notes.find(n => n.id === designTarget)?.order ?? 0)}）`}
+            design={resolveVisualSettings(visualSettings, notes.find(n => n.id === designTarget)?.design)}
+            stylePalette={selectedStyle.palette}
+            onSave={handleSaveDesign}
+            onReset={designTarget === 'global' ? undefined : handleResetNoteDesign}
+            onClose={() => setDesignTarget(null)}
+          />
+        )}
+
+        {versionNote?.structure && (
+          <VersionHistoryPanel
+            title={`结构版本（笔记 #${versionNote.order}）`}
+            versions={versionNote.structureVersions || []}
+            current={versionNote.structure}
+            onSave={handleSaveVersion}
+            onRestore={handleRestoreVersion}
+            onDelete={handleDeleteVersion}
+            onClose={() => setVersionTarget(null)}
+          />
+        )}
+
+        {showLibrary && (
+          <SessionLibrary
+            currentSessionId={sessionId}
+            onOpen={openSession}
+            onNew={startNewSession}
+            onDeleted={(id) => id === sessionId && startNewSession()}
+            onRenamed={(id, name) => id === sessionId && setSessionName(name)}
+            onClose={() => setShowLibrary(false)}
+            newId={uuidv4}
+          />
+        )}
+
         {/* 聊天流区域 */}
         <div className="chat-stream" ref={chatStreamRef}>
           {chatHistory.map(item => {
@@ -1085,7 +1764,7 @@ const App = () => {
                         <div className="control-card" style={{ marginTop: '0', border: 'none', background: 'transparent', padding: 0 }}>
                           <div style={{ marginBottom: '8px' }}>请选择视觉风格：</div>
                           <div className="style-grid">
-                            {STYLES.map(s => (
+                            {allStyles.map(s => (
                               <div
                                 key={s.id}
                                 className={`style - chip ${visualSettings.styleId === s.id ? 'active' : ''} `}
@@ -1096,7 +1775,36 @@ const App = () => {
                               </div>
                             ))}
                           </div>
-                          <div className="center-container" style={{ marginTop: '12px' }}>
+                          <div style={{ margin: '12px 0 8px' }}>版式：</div>
+                          <div className="style-grid">
+                            {LAYOUT_TEMPLATES.map(l => (
+                              <div
+                                key={l.id}
+                                className={`style-chip ${visualSettings.layout === l.id ? 'active' : ''}`}
+                                onClick={() => setVisualSettings({ ...visualSettings, layout: l.id })}
+                              >
+                                <div style={{ fontSize: '16px' }}>{l.emoji}</div>
+                                <div style={{ fontSize: '9px', marginTop: '2px', lineHeight: '1.2' }}>{l.name}</div>
+                              </div>
+                            ))}
+                          </div>
+                          <div className="split-options" style={{ marginTop: '12px' }}>
+                            <span>画幅</span>
+                            <select
+                              className="settings-input"
+                              value={visualSettings.aspectRatio}
+                              onChange={e => setVisualSettings({ ...visualSettings, aspectRatio: e.target.value as AspectRatio })}
+                            >
+                              {ASPECT_RATIOS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                            </select>
+                          </div>
+                          <div className="center-container" style={{ marginTop: '12px', gap: '8px' }}>
+                            <button className="card-action-btn" onClick={() => setShowStyleManager(true)}>
+                              🎨 管理风格
+                            </button>
+                            <button className="card-action-btn" onClick={() => setDesignTarget('global')}>
+                              🌈 配色与水印
+                            </button>
                             <button className="confirm-btn btn-compact" onClick={handleStyleConfirm}>
                               ✅ 确认风格
                             </button>
@@ -1107,7 +1815,7 @@ const App = () => {
                       {item.componentType === 'split_review' && (
                         <div style={{ marginTop: '0' }}>
                           <div style={{ marginBottom: '8px' }}>
-                            已拆分为 {notes.length} 个笔记单元，请确认：
+                            已拆分为 {notes.length} 个笔记单元，可在左侧拆分、合并、拖动排序或删除：
                           </div>
                           {notes.map((note, idx) => (
                             <div key={note.id} style={{
@@ -1115,48 +1823,118 @@ const App = () => {
                               padding: '6px 8px',
                               background: 'rgba(0,0,0,0.2)',
                               borderRadius: '6px',
-                              border: '1px solid rgba(255,255,255,0.05)'
+                              border: `1px solid ${note.originalText.trim() ? 'rgba(255,255,255,0.05)' : 'rgba(239,68,68,0.4)'}`
                             }}>
                               <div style={{ fontSize: '9px', color: 'var(--accent-primary)', marginBottom: '2px' }}>
-                                📝 单元 {idx + 1}
+                                📝 单元 {idx + 1} · {note.originalText.length} 字
                               </div>
                               <div style={{ fontSize: '10px', color: '#ccc', lineHeight: '1.3' }}>
-                                {note.originalText.substring(0, 60)}...
+                                {note.originalText.trim() ? `${note.originalText.trim().substring(0, 60)}...` : '（空白单元）'}
                               </div>
                             </div>
                           ))}
+                          {stage === Stage.ReviewSplit && (
+                            <>
+                              <button className="add-module-btn" style={{ marginTop: '6px' }} onClick={splitActions.add}>
+                                <span>➕ 新增空白单元</span>
+                              </button>
+                              <div className="card-meta" style={{ marginTop: '8px', opacity: 1, color: splitCoversOriginal ? 'var(--success)' : '#fbbf24' }}>
+                                {splitCoversOriginal
+                                  ? '✅ 片段拼接后完整覆盖原文'
+                                  : `⚠️ 片段拼接后与原文不一致（原文 ${savedOriginalText.replace(/\s+/g, '').length} 字，当前 ${notes.map(n => n.originalText).join('').replace(/\s+/g, '').length} 字）`}
+                              </div>
+                            </>
+                          )}
                           <div className="center-container" style={{ marginTop: '12px' }}>
-                            <button className="confirm-btn btn-compact" onClick={handleConfirmSplit}>
+                            <button className="confirm-btn btn-compact" onClick={handleConfirmSplit} disabled={notes.length === 0 || hasEmptySplit}>
                               ✅ 确认拆分，开始整理
                             </button>
                           </div>
+                          {hasEmptySplit && <div className="card-meta" style={{ textAlign: 'center' }}>请填写或删除空白单元</div>}
                         </div>
                       )}
 
                       {item.componentType === 'batch_progress' && (
-                        <div style={{
-                          padding: '12px',
-                          background: 'rgba(99, 102, 241, 0.1)',
-                          borderRadius: '8px',
-                          border: '1px solid rgba(99, 102, 241, 0.2)',
-                          width: '100%'
-                        }}>
-                          <div style={{ fontSize: '13px', color: 'var(--text-primary)', marginBottom: '8px' }}>
-                            批量处理进度：{notes.filter(n => n.finalImage).length}/{notes.length}
-                          </div>
-                          <div style={{
-                            height: '4px',
-                            background: 'rgba(255,255,255,0.1)',
-                            borderRadius: '2px',
-                            overflow: 'hidden'
-                          }}>
-                            <div style={{
-                              height: '100%',
-                              width: `${(notes.filter(n => n.finalImage).length / notes.length) * 100}% `,
-                              background: 'var(--gradient-primary)',
-                              transition: 'width 0.5s ease'
-                            }} />
-                          </div>
+                        <JobQueueView
+                          queue={queueState}
+                          notes={notes}
+                          onCancel={jobQueue.cancel}
+                          onCancelAll={jobQueue.cancelAll}
+                          onPause={jobQueue.pause}
+                          onResume={jobQueue.resume}
+                          onConcurrencyChange={jobQueue.setConcurrency}
+                        />
+                      )}
+
+                      {item.componentType === 'paint_confirmation' && (
+                        <div className="split-options" style={{ marginTop: '4px' }}>
+                          <span>绘制方式（可在左侧逐个切换）</span>
+                          <button className="card-action-btn" onClick={() => setNotes(prev => prev.map(n => ({ ...n, renderMode: 'ai' })))}>
+                            🤖 全部 AI 绘制
+                          </button>
+                          <button className="card-action-btn" onClick={() => setNotes(prev => prev.map(n => ({ ...n, renderMode: 'local' })))}>
+                            📐 全部本地排版
+                          </button>
+                          <button className="card-action-btn" onClick={() => setNotes(prev => prev.map(n => ({ ...n, renderMode: 'hybrid' })))}>
+                            🧩 全部混合
+                          </button>
+                        </div>
+                      )}
+
+                      {item.componentType === 'paint_confirmation' && (
+                        <div className="split-options">
+                          <span>每个笔记候选</span>
+                          <select
+                            className="settings-input"
+                            value={candidateCount}
+                            onChange={(e) => updateCandidateCount(Number(e.target.value))}
+                          >
+                            {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(n => (
+                              <option key={n} value={n}>{n} 张</option>
+                            ))}
+                          </select>
+                          <span>（本地排版始终 1 张）</span>
+                        </div>
+                      )}
+
+                      {item.componentType === 'paint_confirmation' && (
+                        <div className="split-options">
+                          <label title="用文本模型读回图片中的标题并与结构比对，仅对 AI 绘制生效">
+                            <input
+                              type="checkbox"
+                              checked={legibility.enabled}
+                              onChange={(e) => updateLegibility({ enabled: e.target.checked })}
+                            /> 文字校验
+                          </label>
+                          <span>阈值</span>
+                          <input
+                            type="number"
+                            className="settings-input"
+                            min={0.5}
+                            max={1}
+                            step={0.05}
+                            value={legibility.threshold}
+                            disabled={!legibility.enabled}
+                            onChange={(e) => updateLegibility({ threshold: Math.min(1, Math.max(0.5, Number(e.target.value) || 0.8)) })}
+                          />
+                          <span>最多重绘</span>
+                          <input
+                            type="number"
+                            className="settings-input"
+                            min={0}
+                            max={3}
+                            value={legibility.maxRetries}
+                            disabled={!legibility.enabled}
+                            onChange={(e) => updateLegibility({ maxRetries: Math.min(3, Math.max(0, Math.round(Number(e.target.value)) || 0)) })}
+                          />
+                          <span>次</span>
+                        </div>
+                      )}
+
+                      {item.componentType === 'paint_confirmation' && (
+                        <div className="card-meta paint-estimate" title="按一次通过估算，不含文字校验不通过的自动重绘和失败重试">
+                          绘制 {paintEstimate.images} 张 ≈ {formatCost(paintEstimate.totals.cost)}
+                          {paintEstimate.totals.unpriced.length > 0 && `（${paintEstimate.totals.unpriced.join('、')} 未设置单价）`}
                         </div>
                       )}
 
@@ -1179,14 +1957,30 @@ const App = () => {
                         </div>
                       )}
 
-                      {item.componentType === 'final_result' && (
+                      {item.componentType === 'final_result' && (failedNotes.length > 0 ? (
+                        <div className="center-container" style={{ marginTop: '8px', gap: '8px' }}>
+                          <span className="card-meta">
+                            成功 {notes.filter(n => n.finalImage).length} 张，{failedNotes.length} 个笔记未完成
+                          </span>
+                          {retryFailedButton}
+                        </div>
+                      ) : (
                         <div style={{ color: 'var(--text-primary)', fontSize: '13px' }}>
                           🎉 全部绘制完成！请查看右侧的视觉笔记。
                         </div>
+                      ))}
+
+                      {item.componentType === 'batch_summary' && (
+                        <div className="center-container" style={{ marginTop: '8px', gap: '8px' }}>
+                          {failedNotes.length > 0
+                            ? retryFailedButton
+                            : <span className="card-meta">✓ 失败的笔记已全部重新处理</span>}
+                        </div>
                       )}
 
                       {item.componentType === 'regenerate_all' && (
-                        <div className="center-container" style={{ marginTop: '8px' }}>
+                        <div className="center-container" style={{ marginTop: '8px', gap: '8px' }}>
+                          {regenerateStageSelect}
                           <button className="confirm-btn btn-compact" onClick={regenerateAll}>
                             🔄 重新生成全部笔记
                           </button>
@@ -1207,28 +2001,93 @@ const App = () => {
         <div className="chat-input-area">
           {stage === Stage.Done ? (
             <div style={{ display: 'flex', gap: '8px' }}>
+              {regenerateStageSelect}
               <button className="primary-btn" onClick={regenerateAll} style={{ height: '50px', fontSize: '14px' }} disabled={notes.length === 0}>
                 🔄 重新生成全部
               </button>
-              <button className="primary-btn" onClick={() => window.location.reload()} style={{ height: '50px', fontSize: '14px' }}>
+              {failedNotes.length > 0 && (
+                <button className="primary-btn" onClick={retryFailed} style={{ height: '50px', fontSize: '14px' }}>
+                  🔁 重试失败项（{failedNotes.length}）
+                </button>
+              )}
+              <button className="primary-btn" onClick={startNewSession} style={{ height: '50px', fontSize: '14px' }}>
                 🔄 开始新笔记
               </button>
             </div>
           ) : (
             <>
               <textarea
-                className="text-input"
-                placeholder="输入您想整理的文本内容..."
+                className={`text-input ${isDraggingFile ? 'drop-target' : ''}`}
+                placeholder="输入您想整理的文本内容，或拖入 .md / .txt / .docx / .pdf 文件..."
                 value={rawText}
                 onChange={e => setRawText(e.target.value)}
+                onPaste={handleInputPaste}
+                onDragOver={e => {
+                  if (stage > Stage.Input || !e.dataTransfer.types.includes('Files')) return;
+                  e.preventDefault();
+                  setIsDraggingFile(true);
+                }}
+                onDragLeave={() => setIsDraggingFile(false)}
+                onDrop={handleInputDrop}
                 disabled={stage > Stage.Input}
                 style={{ minHeight: '80px', marginBottom: '12px' }}
               />
+              {stage === Stage.Input && (
+                <div className="input-meta">
+                  <label className="card-action-btn" title="导入 Markdown / 文本 / Word / PDF 文件">
+                    {importingFile ? `⏳ 正在读取 ${importingFile}...` : '📎 导入文件'}
+                    <input
+                      type="file"
+                      accept={SUPPORTED_EXTENSIONS.join(',')}
+                      multiple
+                      style={{ display: 'none' }}
+                      disabled={!!importingFile}
+                      onChange={e => {
+                        const files: File[] = Array.from(e.target.files || []);
+                        e.target.value = '';
+                        handleImportFiles(files);
+                      }}
+                    />
+                  </label>
+                  <span className="input-count">{rawText.length} 字</span>
+                  {inputWarning && <span className="input-warning">⚠️ {inputWarning}</span>}
+                </div>
+              )}
+              {stage === Stage.Input && (
+                <div className="split-options">
+                  <span>拆分方式</span>
+                  <select className="settings-input" value={splitMode} onChange={e => setSplitMode(e.target.value as SplitMode)}>
+                    <option value="ai">AI 智能拆分</option>
+                    <option value="local">本地规则拆分（即时、无损）</option>
+                  </select>
+                  <span>每段</span>
+                  <input
+                    className="settings-input"
+                    type="number"
+                    min={MIN_SPLIT_LENGTH}
+                    max={splitOptions.maxLength}
+                    step={100}
+                    value={splitOptions.minLength}
+                    onChange={e => setSplitOptions({ ...splitOptions, minLength: Math.min(splitOptions.maxLength, Math.max(MIN_SPLIT_LENGTH, Number(e.target.value) || DEFAULT_SPLIT_OPTIONS.minLength)) })}
+                  />
+                  <span>-</span>
+                  <input
+                    className="settings-input"
+                    type="number"
+                    min={MIN_SPLIT_MAX_LENGTH}
+                    step={100}
+                    value={splitOptions.maxLength}
+                    onChange={e => setSplitOptions({ ...splitOptions, maxLength: Math.max(MIN_SPLIT_MAX_LENGTH, Number(e.target.value) || DEFAULT_SPLIT_OPTIONS.maxLength) })}
+                  />
+                  <span>字</span>
+                </div>
+              )}
               {stage === Stage.Input && (
                 <div style={{ display: 'flex', gap: '8px' }}>
                   <button className="primary-btn" onClick={handleSplit} disabled={!rawText.trim()}>
                     ✨ 开始智能整理
                   </button>
+                  {notes.length > 0 && regenerateStageSelect}
                   <button className="primary-btn" onClick={regenerateAll} disabled={notes.length === 0}>
                     🔄 重新生成全部
                   </button>
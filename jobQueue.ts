@@ -0,0 +1,130 @@
+import { describeError } from './retryPolicy';
+
+// 批量整理 / 绘制共用的任务队列：限制并发，支持暂停 / 继续，以及通过 AbortController 取消单个或全部任务
+
+export type JobKind = 'organize' | 'design' | 'paint';
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  noteId: string;
+  kind: JobKind;
+  status: JobStatus;
+  error?: string;
+}
+
+export interface QueueState {
+  jobs: Job[];
+  paused: boolean;
+  concurrency: number;
+}
+
+export interface JobQueue {
+  // 任务结束（完成 / 失败 / 取消）时 resolve，不会 reject
+  add: (noteId: string, kind: JobKind, run: (signal: AbortSignal) => Promise<void>) => Promise<JobStatus>;
+  cancel: (jobId: string) => void;
+  cancelAll: () => void;
+  pause: () => void;
+  resume: () => void;
+  setConcurrency: (concurrency: number) => void;
+  clearFinished: () => void;
+  // 该笔记是否已有排队中或进行中的任务，避免同一笔记重复入队
+  hasActiveJob: (noteId: string) => boolean;
+}
+
+// 批量结束时的统计，成功 / 失败 / 取消分开计数
+export const countStatuses = (statuses: JobStatus[]) => ({
+  done: statuses.filter(s => s === 'done').length,
+  failed: statuses.filter(s => s === 'failed').length,
+  cancelled: statuses.filter(s => s === 'cancelled').length
+});
+
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 6;
+
+interface Entry {
+  job: Job;
+  run: (signal: AbortSignal) => Promise<void>;
+  controller: AbortController;
+  resolve: (status: JobStatus) => void;
+}
+
+const isFinished = (status: JobStatus) => status === 'done' || status === 'failed' || status === 'cancelled';
+
+export const createJobQueue = (newId: () => string, onChange: (state: QueueState) => void, concurrency = DEFAULT_CONCURRENCY): JobQueue => {
+  let entries: Entry[] = [];
+  let paused = false;
+
+  const emit = () => onChange({ jobs: entries.map(e => e.job), paused, concurrency });
+
+  // 取消后仍在执行的任务稍后结束时，不再覆盖已记录的状态
+  const finish = (entry: Entry, status: JobStatus, error?: string) => {
+    if (isFinished(entry.job.status)) return;
+    entry.job = { ...entry.job, status, error };
+    entry.resolve(status);
+  };
+
+  const start = (entry: Entry) => {
+    entry.job = { ...entry.job, status: 'running' };
+    entry.run(entry.controller.signal)
+      .then(
+        () => finish(entry, entry.controller.signal.aborted ? 'cancelled' : 'done'),
+        (e: any) => entry.controller.signal.aborted
+          ? finish(entry, 'cancelled')
+          : finish(entry, 'failed', describeError(e))
+      )
+      .finally(pump);
+  };
+
+  const pump = () => {
+    if (!paused) {
+      let running = entries.filter(e => e.job.status === 'running').length;
+      for (const entry of entries) {
+        if (running >= concurrency) break;
+        if (entry.job.status !== 'queued') continue;
+        running++;
+        start(entry);
+      }
+    }
+    emit();
+  };
+
+  const cancelEntry = (entry: Entry) => {
+    if (isFinished(entry.job.status)) return;
+    entry.controller.abort();
+    finish(entry, 'cancelled');
+  };
+
+  return {
+    add: (noteId, kind, run) => new Promise<JobStatus>(resolve => {
+      entries.push({ job: { id: newId(), noteId, kind, status: 'queued' }, run, controller: new AbortController(), resolve });
+      pump();
+    }),
+    cancel: (jobId) => {
+      const entry = entries.find(e => e.job.id === jobId);
+      if (entry) cancelEntry(entry);
+      pump();
+    },
+    cancelAll: () => {
+      entries.forEach(cancelEntry);
+      pump();
+    },
+    pause: () => {
+      paused = true;
+      emit();
+    },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    setConcurrency: (next) => {
+      concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(next)));
+      pump();
+    },
+    clearFinished: () => {
+      entries = entries.filter(e => !isFinished(e.job.status));
+      emit();
+    },
+    hasActiveJob: (noteId) => entries.some(e => e.job.noteId === noteId && !isFinished(e.job.status))
+  };
+};
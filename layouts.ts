@@ -0,0 +1,76 @@
+import { AspectRatio, LayoutTemplate } from './types';
+
+// 画幅与版式模板：生成绘图指令中的构图描述，分区数量跟随实际模块数
+
+export interface AspectRatioOption {
+  id: AspectRatio;
+  label: string;
+  orientation: string;
+  width: number;   // 本地占位图 / 自托管模型使用的像素尺寸
+  height: number;
+}
+
+export const ASPECT_RATIOS: AspectRatioOption[] = [
+  { id: '3:4', label: '3:4 竖版', orientation: 'Vertical Long Chart', width: 768, height: 1024 },
+  { id: '1:1', label: '1:1 方形', orientation: 'Square Card', width: 1024, height: 1024 },
+  { id: '16:9', label: '16:9 横版', orientation: 'Horizontal Slide', width: 1024, height: 576 },
+  { id: '9:16', label: '9:16 社交竖屏', orientation: 'Vertical Story / Phone Screen', width: 576, height: 1024 }
+];
+
+export interface LayoutOption {
+  id: LayoutTemplate;
+  name: string;
+  emoji: string;
+  promptName: string;
+  grid: (count: number) => string;
+  flow: (count: number) => string;
+}
+
+export const LAYOUT_TEMPLATES: LayoutOption[] = [
+  {
+    id: 'bento',
+    name: '便当格',
+    emoji: '🍱',
+    promptName: 'Bento grid',
+    grid: count => `Use a modular layout(like a bento box).Divide the canvas into ${count} clear, non - overlapping sections for the main points, plus a title area and footer.`,
+    flow: count => `Use cute, hand - drawn dotted arrows to guide the eye from section 1 to ${count} logically.`
+  },
+  {
+    id: 'timeline',
+    name: '时间轴',
+    emoji: '🕰️',
+    promptName: 'Timeline',
+    grid: count => `Draw one continuous timeline axis with ${count} evenly spaced milestone nodes; each node has its own text box for one module, plus a title area and footer.`,
+    flow: count => `The axis itself carries the reading order from node 1 to node ${count}; mark each node with its number.`
+  },
+  {
+    id: 'radial',
+    name: '思维导图',
+    emoji: '🕸️',
+    promptName: 'Radial mind-map',
+    grid: count => `Place the title in a central hub and arrange ${count} branch bubbles radially around it, one per module, with a footer at the bottom.`,
+    flow: count => `Connect the hub to each of the ${count} branches with smooth curved lines; number the branches clockwise starting at the top.`
+  },
+  {
+    id: 'columns',
+    name: '对比分栏',
+    emoji: '⚖️',
+    promptName: 'Comparison columns',
+    grid: count => `Split the canvas into ${count} side-by-side comparison columns of equal width (wrap into two rows if needed), each with a header cell, plus a title area and footer.`,
+    flow: () => 'Align matching points horizontally across columns so they can be compared at a glance; no arrows needed.'
+  },
+  {
+    id: 'flowchart',
+    name: '流程图',
+    emoji: '🔀',
+    promptName: 'Flowchart',
+    grid: count => `Lay out ${count} process step boxes as a flowchart (top-to-bottom or snake-shaped), one box per module, plus a title area and footer.`,
+    flow: count => `Connect step 1 to step ${count} with solid directional arrows; arrows must not cross or cover text.`
+  }
+];
+
+export const findAspectRatio = (id: AspectRatio): AspectRatioOption =>
+  ASPECT_RATIOS.find(r => r.id === id) || ASPECT_RATIOS[0];
+
+export const findLayout = (id: LayoutTemplate): LayoutOption =>
+  LAYOUT_TEMPLATES.find(l => l.id === id) || LAYOUT_TEMPLATES[0];
@@ -0,0 +1,100 @@
+import { LeftBrainData, TextFidelity } from './types';
+import { TextProvider } from './providers';
+import { JsonSchema, parseJsonResponse } from './organizerSchema';
+
+// 成图文字校验：让多模态模型读回图片中的标题与小标题，与结构化笔记逐项比对打分
+
+export interface LegibilitySettings {
+  enabled: boolean;
+  threshold: number;  // 低于该分数自动重绘
+  maxRetries: number; // 每张图最多额外重绘次数
+}
+
+export const DEFAULT_LEGIBILITY_SETTINGS: LegibilitySettings = { enabled: false, threshold: 0.8, maxRetries: 1 };
+
+export interface ReadBack {
+  title: string;
+  headings: string[];
+}
+
+const READ_BACK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'The main title exactly as written in the image' },
+    headings: { type: 'array', items: { type: 'string' }, description: 'Section headings in reading order' }
+  },
+  required: ['title', 'headings']
+};
+
+const READ_BACK_PROMPT = `
+You are an OCR engine. Read the text that is actually visible in the attached image.
+Return JSON with the main title and every section heading, copied character by character exactly as rendered (including wrong or malformed characters).
+If a heading is unreadable, skip it. Do not guess, fix or translate anything.
+`.trim();
+
+// 忽略空白、标点与序号差异，只比较文字本身
+const normalize = (text: string) =>
+  text.replace(/^\s*\d+[.、．)）]\s*/, '').replace(/[\s\p{P}\p{S}]/gu, '').toLowerCase();
+
+const similarity = (expected: string, actual: string): number => {
+  const a = [...normalize(expected)];
+  const b = [...normalize(actual)];
+  if (a.length === 0) return 1;
+  if (b.length === 0) return 0;
+  // Levenshtein distance over code points
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return Math.max(0, 1 - prev[b.length] / Math.max(a.length, b.length));
+};
+
+const MATCH_THRESHOLD = 0.9;
+
+export const scoreFidelity = (expected: LeftBrainData, read: ReadBack, attempts: number): TextFidelity => {
+  const targets = [expected.title, ...expected.modules.map(m => m.heading)].filter(t => normalize(t));
+  const candidates = [read.title, ...read.headings];
+  const scores = targets.map(t => Math.max(0, ...candidates.map(c => similarity(t, c))));
+  return {
+    score: scores.length > 0 ? scores.reduce((sum, s) => sum + s, 0) / scores.length : 1,
+    attempts,
+    missing: targets.filter((_, i) => scores[i] < MATCH_THRESHOLD)
+  };
+};
+
+export const readImageText = async (provider: TextProvider, image: string, signal?: AbortSignal): Promise<ReadBack> => {
+  const { text } = await provider.generateText({
+    prompt: READ_BACK_PROMPT,
+    task: 'verify',
+    responseSchema: READ_BACK_SCHEMA,
+    images: [image],
+    signal
+  });
+  const json = parseJsonResponse(text);
+  return {
+    title: typeof json?.title === 'string' ? json.title : '',
+    headings: Array.isArray(json?.headings) ? json.headings.filter((h: unknown) => typeof h === 'string') : []
+  };
+};
+
+// --- SETTINGS PERSISTENCE ---
+
+const LEGIBILITY_KEY = 'soulnote.legibilitySettings';
+
+export const loadLegibilitySettings = (): LegibilitySettings => {
+  try {
+    const raw = localStorage.getItem(LEGIBILITY_KEY);
+    return raw ? { ...DEFAULT_LEGIBILITY_SETTINGS, ...JSON.parse(raw) } : DEFAULT_LEGIBILITY_SETTINGS;
+  } catch (e) {
+    console.warn('Failed to load legibility settings', e);
+    return DEFAULT_LEGIBILITY_SETTINGS;
+  }
+};
+
+export const saveLegibilitySettings = (settings: LegibilitySettings) => {
+  localStorage.setItem(LEGIBILITY_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,320 @@
+import { LeftBrainData, StylePreset, VisualSettings } from './types';
+import { findAspectRatio } from './layouts';
+import { paletteColors } from './palettes';
+
+// 本地排版渲染：把结构化笔记直接排成 SVG 再栅格化为 PNG，文字像素级准确，不依赖图像模型
+// 混合模式下以 AI 生成的无文字插画为底图，文字仍由本地排版叠加
+
+const SCALE = 1.5;
+const FONT_FAMILY = `"Noto Sans SC", "PingFang SC", "Microsoft YaHei", "Heiti SC", sans-serif`;
+const TEXT_COLOR = '#333333';
+const DEFAULT_BACKGROUND = '#F5F5DC';
+const DEFAULT_ACCENTS = ['#6366F1', '#F59E0B', '#10B981', '#EC4899', '#3B82F6', '#8B5CF6'];
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// --- COLOR HELPERS ---
+
+const luminance = (hex: string): number => {
+  const n = parseInt(hex.slice(1), 16);
+  const [r, g, b] = [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+  return (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+};
+
+// 过浅的颜色不适合做描边 / 强调色
+const accentColors = (settings: VisualSettings, style: StylePreset): string[] => {
+  const colors = paletteColors(settings.colorTheme || style.palette).filter(c => luminance(c) < 0.85);
+  return colors.length >= 2 ? colors : DEFAULT_ACCENTS;
+};
+
+const backgroundColor = (style: StylePreset): string => paletteColors(style.background)[0] || DEFAULT_BACKGROUND;
+
+// --- TEXT HELPERS ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// SVG 没有自动换行：按字符估算宽度（CJK 全角，ASCII 约半角）
+const charWidth = (ch: string, size: number) => (/[\u0000-\u00ff]/.test(ch) ? size * 0.55 : size);
+
+const wrapText = (text: string, maxWidth: number, size: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  let width = 0;
+  for (const ch of text) {
+    const w = charWidth(ch, size);
+    if (width + w > maxWidth && line) {
+      lines.push(line);
+      line = '';
+      width = 0;
+      if (ch === ' ') continue;
+    }
+    line += ch;
+    width += w;
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const truncateLines = (lines: string[], max: number): string[] =>
+  lines.length <= max ? lines : [...lines.slice(0, max - 1), `${lines[max - 1].slice(0, -1)}…`];
+
+const splitPoints = (content: string): string[] =>
+  content.split(/[;；\n]+/).map(s => s.trim()).filter(Boolean);
+
+const textLines = (lines: string[], x: number, y: number, size: number, lineHeight: number, attrs = ''): string =>
+  lines.map((line, i) =>
+    `<text x="${x}" y="${y + i * lineHeight}" font-size="${size}" ${attrs}>${escapeXml(line)}</text>`
+  ).join('');
+
+// --- LAYOUT GEOMETRY ---
+
+const gridRects = (area: Rect, count: number, cols: number, gap: number, snake = false): Rect[] => {
+  const rows = Math.ceil(count / cols);
+  const h = (area.h - gap * (rows - 1)) / rows;
+  const rects: Rect[] = [];
+  for (let r = 0; r < rows; r++) {
+    const inRow = Math.min(cols, count - r * cols);
+    const w = (area.w - gap * (inRow - 1)) / inRow; // 末行不足时拉伸铺满
+    const row: Rect[] = [];
+    for (let c = 0; c < inRow; c++) {
+      row.push({ x: area.x + c * (w + gap), y: area.y + r * (h + gap), w, h });
+    }
+    rects.push(...(snake && r % 2 === 1 ? row.reverse() : row));
+  }
+  return rects;
+};
+
+const radialRects = (area: Rect, count: number): Rect[] => {
+  const w = area.w * (count <= 4 ? 0.42 : 0.34);
+  const h = area.h * (count <= 4 ? 0.3 : 0.22);
+  const cx = area.x + area.w / 2;
+  const cy = area.y + area.h / 2;
+  const rx = (area.w - w) / 2;
+  const ry = (area.h - h) / 2;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / count;
+    return { x: cx + rx * Math.cos(angle) - w / 2, y: cy + ry * Math.sin(angle) - h / 2, w, h };
+  });
+};
+
+const moduleRects = (layout: VisualSettings['layout'], area: Rect, count: number, landscape: boolean, gap: number): Rect[] => {
+  switch (layout) {
+    case 'columns':
+      return gridRects(area, count, count <= 4 ? count : Math.ceil(count / 2), gap);
+    case 'flowchart':
+      return gridRects(area, count, landscape ? Math.min(count, 4) : count <= 4 ? 1 : 2, gap * 2, true);
+    case 'timeline': {
+      // 竖版：轴线在左侧；横版：轴线在上方
+      const axisSpace = gap * 3;
+      return landscape
+        ? gridRects({ ...area, y: area.y + axisSpace, h: area.h - axisSpace }, count, count, gap)
+        : gridRects({ ...area, x: area.x + axisSpace, w: area.w - axisSpace }, count, 1, gap);
+    }
+    case 'radial':
+      return radialRects(area, count);
+    case 'bento':
+    default:
+      return gridRects(area, count, landscape ? (count <= 2 ? count : count <= 4 ? 2 : 3) : count <= 3 ? 1 : 2, gap);
+  }
+};
+
+// 相邻卡片之间的箭头：同一行画水平箭头，同一列画竖直箭头，换行处不画
+const connector = (a: Rect, b: Rect, color: string, dashed: boolean, unit: number): string => {
+  const dash = dashed ? ` stroke-dasharray="${unit * 0.8} ${unit * 0.6}"` : '';
+  const overlapY = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  const overlapX = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  let x1: number, y1: number, x2: number, y2: number;
+  if (overlapY > 0) {
+    const y = Math.max(a.y, b.y) + overlapY / 2;
+    [x1, x2] = a.x < b.x ? [a.x + a.w, b.x] : [a.x, b.x + b.w];
+    [y1, y2] = [y, y];
+  } else if (overlapX > 0) {
+    const x = Math.max(a.x, b.x) + overlapX / 2;
+    [y1, y2] = a.y < b.y ? [a.y + a.h, b.y] : [a.y, b.y + b.h];
+    [x1, x2] = [x, x];
+  } else {
+    return '';
+  }
+  if (Math.hypot(x2 - x1, y2 - y1) < unit) return '';
+  return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="${unit * 0.4}"${dash} marker-end="url(#arrow)"/>`;
+};
+
+// --- MODULE CARD ---
+
+const renderModule = (rect: Rect, index: number, heading: string, content: string, color: string, unit: number, banner: boolean, fillOpacity = 1): string => {
+  const pad = unit * 2;
+  const innerW = rect.w - pad * 2;
+  const headingSize = Math.min(unit * 3.4, rect.h / 5);
+  const headingLines = truncateLines(wrapText(heading, innerW - headingSize * 1.6, headingSize), 2);
+  const headingBottom = rect.y + pad + headingLines.length * headingSize * 1.3;
+
+  // 正文逐级缩小字号直到放得下
+  const available = rect.y + rect.h - pad - (headingBottom + unit);
+  const points = splitPoints(content);
+  const layoutPoints = (fontSize: number) => points.flatMap(p => wrapText(`• ${p}`, innerW, fontSize));
+  let size = unit * 2.6;
+  let lines = layoutPoints(size);
+  while (lines.length * size * 1.45 > available && size > unit * 1.6) {
+    size -= unit * 0.2;
+    lines = layoutPoints(size);
+  }
+  lines = truncateLines(lines, Math.max(1, Math.floor(available / (size * 1.45))));
+
+  const badgeR = headingSize * 0.7;
+  const headerFill = banner
+    ? `<path d="M${rect.x} ${rect.y + unit * 1.5} a${unit * 1.5} ${unit * 1.5} 0 0 1 ${unit * 1.5} ${-unit * 1.5} h${rect.w - unit * 3} a${unit * 1.5} ${unit * 1.5} 0 0 1 ${unit * 1.5} ${unit * 1.5} V${headingBottom + unit * 0.5} H${rect.x} Z" fill="${color}" fill-opacity="0.15"/>`
+    : '';
+
+  return `
+    <g>
+      <rect x="${rect.x}" y="${rect.y}" width="${rect.w}" height="${rect.h}" rx="${unit * 1.5}" fill="#FFFFFF" fill-opacity="${fillOpacity}" stroke="${color}" stroke-width="${unit * 0.35}"/>
+      ${headerFill}
+      <circle cx="${rect.x + pad + badgeR}" cy="${rect.y + pad + headingSize * 0.62}" r="${badgeR}" fill="${color}"/>
+      <text x="${rect.x + pad + badgeR}" y="${rect.y + pad + headingSize * 0.62 + badgeR * 0.42}" font-size="${badgeR * 1.2}" font-weight="700" fill="#FFFFFF" text-anchor="middle">${index + 1}</text>
+      ${textLines(headingLines, rect.x + pad + badgeR * 2 + unit, rect.y + pad + headingSize * 0.95, headingSize, headingSize * 1.3, `font-weight="700" fill="${TEXT_COLOR}"`)}
+      ${textLines(lines, rect.x + pad, headingBottom + unit + size, size, size * 1.45, `fill="${TEXT_COLOR}"`)}
+    </g>`;
+};
+
+// --- SVG DOCUMENT ---
+
+export interface RenderOptions {
+  backgroundImage?: string; // data URI of a text-free illustration (hybrid mode)
+}
+
+export const renderNoteSvg = (data: LeftBrainData, settings: VisualSettings, style: StylePreset, options: RenderOptions = {}): { svg: string; width: number; height: number } => {
+  const ratio = findAspectRatio(settings.aspectRatio);
+  const width = Math.round(ratio.width * SCALE);
+  const height = Math.round(ratio.height * SCALE);
+  const landscape = width > height;
+  const unit = Math.min(width, height) / 100;
+  const margin = unit * 5;
+
+  const { backgroundImage } = options;
+  const background = backgroundColor(style);
+  // 底图明暗未知时，标题放在浅色底板上，统一使用深色文字
+  const darkBackground = !backgroundImage && luminance(background) < 0.5;
+  const headerColor = darkBackground ? '#FFFFFF' : TEXT_COLOR;
+  const mutedColor = darkBackground ? 'rgba(255,255,255,0.7)' : '#666666';
+  const dotColor = darkBackground ? 'rgba(255,255,255,0.12)' : 'rgba(0,0,0,0.08)';
+  const accents = accentColors(settings, style);
+
+  // Header: title + subtitle
+  const titleSize = unit * 6;
+  const subtitleSize = unit * 2.8;
+  const titleLines = truncateLines(wrapText(data.title || '未命名笔记', width - margin * 2, titleSize), 2);
+  const subtitleLines = data.summary_context ? truncateLines(wrapText(data.summary_context, width - margin * 4, subtitleSize), 2) : [];
+  const titleY = margin + titleSize;
+  const subtitleY = titleY + (titleLines.length - 1) * titleSize * 1.2 + subtitleSize * 1.8;
+  const headerBottom = subtitleY + (subtitleLines.length - 1) * subtitleSize * 1.4 + unit * 3;
+
+  const footerH = unit * 5;
+  const area: Rect = { x: margin, y: headerBottom, w: width - margin * 2, h: height - headerBottom - margin - footerH };
+  const gap = unit * 2.5;
+
+  const modules = data.modules.length > 0 ? data.modules : [{ id: 'm0', heading: data.title, content: data.summary_context }];
+  const rects = moduleRects(settings.layout, area, modules.length, landscape, gap);
+
+  // Connectors / axis drawn beneath the cards
+  let underlay = '';
+  if (settings.layout === 'radial') {
+    const cx = area.x + area.w / 2;
+    const cy = area.y + area.h / 2;
+    underlay = rects.map((r, i) =>
+      `<line x1="${cx}" y1="${cy}" x2="${r.x + r.w / 2}" y2="${r.y + r.h / 2}" stroke="${accents[i % accents.length]}" stroke-width="${unit * 0.5}" stroke-linecap="round"/>`
+    ).join('');
+    const hubText = truncateLines(wrapText(data.title || '', unit * 16, unit * 2.6), 2);
+    underlay += `
+      <ellipse cx="${cx}" cy="${cy}" rx="${unit * 10}" ry="${unit * 7}" fill="${accents[0]}"/>
+      ${textLines(hubText, cx, cy - (hubText.length - 1) * unit * 1.6 + unit, unit * 2.6, unit * 3.2, 'font-weight="700" fill="#FFFFFF" text-anchor="middle"')}`;
+  } else if (settings.layout === 'timeline') {
+    if (landscape) {
+      const axisY = area.y + gap * 1.2;
+      underlay = `<line x1="${area.x}" y1="${axisY}" x2="${area.x + area.w}" y2="${axisY}" stroke="${accents[0]}" stroke-width="${unit * 0.6}" marker-end="url(#arrow)"/>`;
+      underlay += rects.map((r, i) => `<circle cx="${r.x + r.w / 2}" cy="${axisY}" r="${unit * 1.2}" fill="${accents[i % accents.length]}"/>`).join('');
+    } else {
+      const axisX = area.x + gap * 1.2;
+      underlay = `<line x1="${axisX}" y1="${area.y}" x2="${axisX}" y2="${area.y + area.h}" stroke="${accents[0]}" stroke-width="${unit * 0.6}" marker-end="url(#arrow)"/>`;
+      underlay += rects.map((r, i) => `<circle cx="${axisX}" cy="${r.y + r.h / 2}" r="${unit * 1.2}" fill="${accents[i % accents.length]}"/>`).join('');
+    }
+  } else if (settings.layout !== 'columns') {
+    const dashed = settings.layout === 'bento';
+    for (let i = 0; i < rects.length - 1; i++) {
+      underlay += connector(rects[i], rects[i + 1], accents[0], dashed, unit);
+    }
+  }
+
+  const cards = modules.map((m, i) =>
+    renderModule(rects[i], i, m.heading, m.content, accents[i % accents.length], unit, settings.layout === 'columns', backgroundImage ? 0.9 : 1)
+  ).join('');
+
+  // Corner doodles keep the note lively without touching text
+  const doodles = [
+    [margin * 0.6, margin * 0.6], [width - margin * 0.6, margin * 0.6],
+    [margin * 0.6, height - margin * 0.6], [width - margin * 0.6, height - margin * 0.6]
+  ].map(([x, y], i) => `<circle cx="${x}" cy="${y}" r="${unit * (i % 2 ? 0.9 : 1.4)}" fill="${accents[(i + 1) % accents.length]}" fill-opacity="0.6"/>`).join('');
+
+  const footerY = height - margin + unit;
+  const halo = backgroundImage ? ` stroke="#FFFFFF" stroke-width="${unit * 0.6}" paint-order="stroke"` : '';
+  const footer = `
+    <text x="${margin}" y="${footerY}" font-size="${unit * 2.2}" fill="${mutedColor}"${halo}>${escapeXml(`${style.emoji} ${style.name}`)}</text>
+    ${settings.watermark ? `<text x="${width - margin}" y="${footerY}" font-size="${unit * 2.2}" fill="${mutedColor}" text-anchor="end"${halo}>${escapeXml(settings.watermark)}</text>` : ''}`;
+
+  const backdrop = backgroundImage
+    ? `<image href="${backgroundImage}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>
+  <rect x="${margin}" y="${margin * 0.6}" width="${width - margin * 2}" height="${headerBottom - margin * 0.6 - unit}" rx="${unit * 2}" fill="#FFFFFF" fill-opacity="0.85"/>`
+    : `<rect width="${width}" height="${height}" fill="${background}"/>
+  <rect width="${width}" height="${height}" fill="url(#dots)"/>
+  ${doodles}`;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family='${FONT_FAMILY}'>
+  <defs>
+    <pattern id="dots" width="${unit * 3}" height="${unit * 3}" patternUnits="userSpaceOnUse">
+      <circle cx="${unit * 1.5}" cy="${unit * 1.5}" r="${unit * 0.25}" fill="${dotColor}"/>
+    </pattern>
+    <marker id="arrow" viewBox="0 0 10 10" refX="8" refY="5" markerWidth="5" markerHeight="5" orient="auto-start-reverse">
+      <path d="M0 0 L10 5 L0 10 Z" fill="${accents[0]}"/>
+    </marker>
+  </defs>
+  ${backdrop}
+  ${textLines(titleLines, width / 2, titleY, titleSize, titleSize * 1.2, `font-weight="800" fill="${headerColor}" text-anchor="middle"`)}
+  ${textLines(subtitleLines, width / 2, subtitleY, subtitleSize, subtitleSize * 1.4, `fill="${mutedColor}" text-anchor="middle"`)}
+  ${underlay}
+  ${cards}
+  ${footer}
+</svg>`;
+
+  return { svg, width, height };
+};
+
+// --- RASTERIZE ---
+
+export const rasterizeSvg = (svg: string, width: number, height: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')!.drawImage(img, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('本地排版渲染失败'));
+    };
+    img.src = url;
+  });
+
+export const renderLocalNote = async (data: LeftBrainData, settings: VisualSettings, style: StylePreset, options: RenderOptions = {}): Promise<string> => {
+  const { svg, width, height } = renderNoteSvg(data, settings, style, options);
+  return rasterizeSvg(svg, width, height);
+};
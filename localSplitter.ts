@@ -0,0 +1,132 @@
+// 本地规则拆分：按 Markdown 标题 / "一、二、三" / "1. 2. 3." 编号 / 段落边界切分，
+// 无需调用模型，且拼接所有片段严格等于原文（无损）
+
+export interface SplitOptions {
+  minLength: number; // 目标单元最小字数
+  maxLength: number; // 目标单元最大字数
+}
+
+export const DEFAULT_SPLIT_OPTIONS: SplitOptions = { minLength: 800, maxLength: 1500 };
+export const MIN_SPLIT_LENGTH = 100;
+export const MIN_SPLIT_MAX_LENGTH = 200;
+
+// 输入框里可能是任意数字：maxLength 过小（尤其 <= 0）时硬切循环无法结束，minLength 也不能超过 maxLength
+export const clampSplitOptions = (options: SplitOptions): SplitOptions => {
+  const maxLength = Math.max(MIN_SPLIT_MAX_LENGTH, Math.round(options.maxLength) || DEFAULT_SPLIT_OPTIONS.maxLength);
+  const minLength = Math.min(maxLength, Math.max(MIN_SPLIT_LENGTH, Math.round(options.minLength) || DEFAULT_SPLIT_OPTIONS.minLength));
+  return { minLength, maxLength };
+};
+
+// Boundary strength: 1 = chapter heading, 2 = sub heading / numbered item, 3 = paragraph, 4 = sentence
+type Level = 1 | 2 | 3 | 4;
+
+interface Boundary {
+  pos: number;
+  level: Level;
+}
+
+const CN_NUM = '[一二三四五六七八九十百]+';
+const HEADING_RULES: { pattern: RegExp; level: Level }[] = [
+  { pattern: /^#{1,2}\s+\S/, level: 1 },
+  { pattern: new RegExp(`^第${CN_NUM}[章节部分篇讲]`), level: 1 },
+  { pattern: new RegExp(`^第\\d+[章节部分篇讲]`), level: 1 },
+  { pattern: new RegExp(`^${CN_NUM}[、.．]`), level: 1 },
+  { pattern: /^#{3,6}\s+\S/, level: 2 },
+  { pattern: new RegExp(`^[（(]${CN_NUM}[)）]`), level: 2 },
+  { pattern: /^\d{1,2}[.、．)）]\s*\S/, level: 2 }
+];
+
+const lineBoundaries = (text: string): Boundary[] => {
+  const boundaries: Boundary[] = [];
+  let pos = 0;
+  let prevBlank = false;
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (pos > 0 && trimmed) {
+      const heading = HEADING_RULES.find(r => r.pattern.test(trimmed));
+      if (heading) boundaries.push({ pos, level: heading.level });
+      else if (prevBlank) boundaries.push({ pos, level: 3 });
+    }
+    prevBlank = !trimmed;
+    pos += line.length + 1;
+  }
+  return boundaries;
+};
+
+const sentenceBoundaries = (text: string, start: number, end: number): Boundary[] => {
+  const boundaries: Boundary[] = [];
+  const re = /[。！？!?；;]+["”』」）)]?|\.\s+/g;
+  const slice = text.slice(start, end);
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(slice))) {
+    const pos = start + match.index + match[0].length;
+    if (pos < end) boundaries.push({ pos, level: 4 });
+  }
+  return boundaries;
+};
+
+// Greedily pack consecutive sections into chunks of at most maxLength
+const packSections = (cuts: number[], options: SplitOptions): number[] => {
+  const packed: number[] = [cuts[0]];
+  for (let i = 1; i < cuts.length - 1; i++) {
+    const chunkStart = packed[packed.length - 1];
+    if (cuts[i + 1] - chunkStart > options.maxLength && cuts[i] - chunkStart >= Math.min(options.minLength, options.maxLength / 2)) {
+      packed.push(cuts[i]);
+    }
+  }
+  packed.push(cuts[cuts.length - 1]);
+
+  // 末尾过短的片段并入前一个
+  if (packed.length > 2 && packed[packed.length - 1] - packed[packed.length - 2] < options.minLength / 2) {
+    packed.splice(packed.length - 2, 1);
+  }
+  return packed;
+};
+
+const splitRange = (text: string, start: number, end: number, boundaries: Boundary[], options: SplitOptions): number[] => {
+  if (end - start <= options.maxLength) return [start, end];
+
+  const inner = boundaries.filter(b => b.pos > start && b.pos < end);
+  const candidates = inner.length > 0 ? inner : sentenceBoundaries(text, start, end);
+  if (candidates.length === 0) {
+    // 没有任何边界：按最大长度硬切
+    const cuts = [start];
+    for (let p = start + options.maxLength; p < end; p += options.maxLength) cuts.push(p);
+    cuts.push(end);
+    return cuts;
+  }
+
+  // 使用当前范围内最强的一级边界切分，过长的片段再用更弱的边界递归切分
+  const strongest = Math.min(...candidates.map(b => b.level));
+  let cuts = packSections([start, ...candidates.filter(b => b.level === strongest).map(b => b.pos), end], options);
+  if (cuts.length === 2) {
+    // 打包后仍是一整块：在最接近 maxLength 的边界处强制切开，保证递归收敛
+    const target = start + options.maxLength;
+    const nearest = candidates.reduce((best, b) => Math.abs(b.pos - target) < Math.abs(best.pos - target) ? b : best);
+    cuts = [start, nearest.pos, end];
+  }
+  const weaker = candidates.filter(b => b.level > strongest);
+
+  const result: number[] = [start];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const sub = splitRange(text, cuts[i], cuts[i + 1], weaker.length > 0 ? weaker : sentenceBoundaries(text, cuts[i], cuts[i + 1]), options);
+    result.push(...sub.slice(1));
+  }
+  return result;
+};
+
+export const splitTextLocally = (text: string, options: SplitOptions = DEFAULT_SPLIT_OPTIONS): string[] => {
+  if (!text) return [];
+  const cuts = splitRange(text, 0, text.length, lineBoundaries(text), clampSplitOptions(options));
+  const parts: string[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    parts.push(text.slice(cuts[i], cuts[i + 1]));
+  }
+  return parts;
+};
+
+// 校验拆分结果是否完整覆盖原文（忽略空白差异）
+export const coversText = (parts: string[], original: string): boolean => {
+  const normalize = (s: string) => s.replace(/\s+/g, '');
+  return normalize(parts.join('')) === normalize(original);
+};
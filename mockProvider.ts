@@ -0,0 +1,252 @@
+import { AspectRatio, LeftBrainData } from './types';
+import type { ModelProvider, TextRequest } from './providers';
+import { findAspectRatio } from './layouts';
+import { estimateTokens } from './tokens';
+
+// 离线模拟服务：无需网络和 Key 即可跑通 拆分 → 整理 → 设计 → 绘制 全流程
+// 输出完全由输入决定（或由测试注入的 fixtures 决定），便于演示与端到端测试
+
+// 整理大师的原始 JSON 输出（模块引用 [P#] 段落编号，尚未换算为区间）
+type OrganizerOutput = Omit<LeftBrainData, 'modules'> & { modules: { heading: string; content: string; sources?: number[] }[] };
+
+export interface MockFixtures {
+  split?: string[];
+  structure?: OrganizerOutput;
+  readBack?: { title: string; headings: string[] }; // 文字校验时“读回”的内容，用于模拟乱码
+  latencyMs?: number;
+  // 接下来 times 次请求直接失败，用于演示重试与错误分类，如 { status: 429, message: 'Too Many Requests', retryAfter: '1', times: 2 }
+  failure?: { status?: number; message: string; retryAfter?: string; blocked?: boolean; times?: number };
+}
+
+let fixtures: MockFixtures = {};
+
+export const setMockFixtures = (next: MockFixtures) => {
+  fixtures = next;
+};
+
+declare global {
+  interface Window {
+    soulnoteMock?: { setFixtures: (fixtures: MockFixtures) => void };
+  }
+}
+
+// E2E tests can inject fixtures from the page: window.soulnoteMock.setFixtures({...})
+// Only exposed in dev builds, when MOCK_PROVIDER is the default, or once the mock provider is in use
+export const installMockTestHook = () => {
+  if (typeof window !== 'undefined' && !window.soulnoteMock) {
+    window.soulnoteMock = { setFixtures: setMockFixtures };
+  }
+};
+
+if (import.meta.env.DEV) installMockTestHook();
+
+const DEFAULT_LATENCY_MS = 400;
+
+const delay = (signal?: AbortSignal, ms = fixtures.latencyMs ?? DEFAULT_LATENCY_MS) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const maybeFail = () => {
+  const failure = fixtures.failure;
+  if (!failure) return;
+  const remaining = (failure.times ?? 1) - 1;
+  fixtures = { ...fixtures, failure: remaining > 0 ? { ...failure, times: remaining } : undefined };
+  const { message, times, ...info } = failure;
+  throw Object.assign(new Error(message), info);
+};
+
+// 流式输出时把结果切成若干段依次回调，总耗时与一次普通请求相近
+const STREAM_CHUNKS = 8;
+
+const streamText = async (text: string, onText: (text: string) => void, signal?: AbortSignal) => {
+  const step = Math.ceil(text.length / STREAM_CHUNKS);
+  for (let end = step; end < text.length; end += step) {
+    onText(text.slice(0, end));
+    await delay(signal, (fixtures.latencyMs ?? DEFAULT_LATENCY_MS) / STREAM_CHUNKS);
+  }
+  onText(text);
+};
+
+// 提示词模板以【xxx】标记结尾，其后即为原文
+const extractSourceText = (prompt: string): string => {
+  const match = prompt.match(/【[^】]+】\s*\n([\s\S]*)$/);
+  return (match ? match[1] : prompt).trim();
+};
+
+const paragraphsOf = (text: string): string[] =>
+  text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+const truncate = (text: string, max: number) => text.length > max ? `${text.substring(0, max)}…` : text;
+
+const mockSplit = (text: string): string[] => {
+  if (fixtures.split) return fixtures.split;
+  const paragraphs = paragraphsOf(text);
+  if (text.length <= 2500 || paragraphs.length < 2) return [text];
+
+  // 按段落均分为 ~1200 字的单元
+  const parts: string[] = [];
+  let current = '';
+  for (const p of paragraphs) {
+    if (current && current.length + p.length > 1200) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${p}` : p;
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+const mockStructure = (text: string): OrganizerOutput => {
+  if (fixtures.structure) return fixtures.structure;
+  // 整理提示词中的段落带有 [P#] 编号，模块引用其对应的段落
+  const numbered = paragraphsOf(text).map((p, i) => {
+    const match = p.match(/^\[P(\d+)\]\s*/);
+    return { number: match ? Number(match[1]) : i + 1, text: match ? p.slice(match[0].length) : p };
+  });
+  const paragraphs = numbered.map(p => p.text);
+  const firstLine = (paragraphs[0] || '模拟笔记').split('\n')[0].replace(/^#+\s*/, '');
+  const offset = paragraphs.length > 1 ? 1 : 0;
+  const body = paragraphs.slice(offset);
+
+  return {
+    title: truncate(firstLine, 20),
+    summary_context: `离线模拟整理，共 ${text.length} 字`,
+    visual_theme_keywords: 'mock, offline, placeholder',
+    modules: body.slice(0, 5).map((p, i) => {
+      const [head, ...rest] = p.split('\n');
+      const sentences = (rest.join(' ') || head).split(/[。！？.!?；;]/).map(s => s.trim()).filter(Boolean);
+      return {
+        heading: truncate(head.replace(/^#+\s*/, ''), 12) || `要点 ${i + 1}`,
+        content: sentences.slice(0, 3).map(s => truncate(s, 10)).join('; '),
+        sources: i === 0 && offset ? [numbered[0].number, numbered[1].number] : [numbered[i + offset].number]
+      };
+    })
+  };
+};
+
+// 模块 AI 操作：按提示词中的 Action 与模块 JSON 做确定性的改写
+const mockModuleAction = (prompt: string, source: string): { modules: { heading: string; content: string }[] } => {
+  const action = prompt.match(/^Action: (\w+)/m)?.[1];
+  const language = prompt.match(/into (.+?)\. Keep/)?.[1] || 'English';
+  const modules: { heading: string; content: string }[] = JSON.parse(prompt.match(/# Modules\n([\s\S]*?)\n\s*【原文】/)?.[1] || '[]');
+  const [first = { heading: '模块', content: '' }, second] = modules;
+  const points = first.content.split(/[;；。\n]/).map(p => p.replace(/^-\s*/, '').trim()).filter(Boolean);
+  const half = Math.ceil(points.length / 2);
+
+  switch (action) {
+    case 'condense':
+      return { modules: [{ heading: first.heading, content: points.slice(0, Math.max(1, half)).join('; ') || first.content }] };
+    case 'expand': {
+      const extra = source.split(/[。！？.!?\n]/).map(s => s.trim()).find(s => s && !first.content.includes(s));
+      return { modules: [{ heading: first.heading, content: truncate(extra ? `${first.content}; ${extra}` : first.content, 150) }] };
+    }
+    case 'bullets':
+      return { modules: [{ heading: first.heading, content: points.map(p => `- ${p}`).join('\n') || first.content }] };
+    case 'translate':
+      return { modules: [{ heading: truncate(`[${language}] ${first.heading}`, 24), content: `[${language}] ${first.content}` }] };
+    case 'split':
+      return {
+        modules: [
+          { heading: truncate(`${first.heading}（上）`, 24), content: points.slice(0, half).join('; ') || first.content },
+          { heading: truncate(`${first.heading}（下）`, 24), content: points.slice(half).join('; ') || first.content }
+        ]
+      };
+    case 'merge':
+      return {
+        modules: [{
+          heading: truncate(second ? `${first.heading} · ${second.heading}` : first.heading, 24),
+          content: truncate(second ? `${first.content}; ${second.content}` : first.content, 160)
+        }]
+      };
+    default:
+      return { modules: [first] };
+  }
+};
+
+// 占位图上实际绘制的文字，供文字校验读回（占位图文字总是正确的）
+const renderedText = new Map<string, { title: string; headings: string[] }>();
+const RENDERED_TEXT_LIMIT = 20;
+
+// 从绘图指令中读回标题与模块，绘制一张占位 PNG
+const renderPlaceholder = (prompt: string, aspectRatio?: AspectRatio, variant = 0): string => {
+  const title = prompt.match(/Title: "([^"]*)"/)?.[1] || '模拟视觉笔记';
+  const headings = [...prompt.matchAll(/Heading: "([^"]*)"/g)].map(m => m[1]);
+
+  const canvas = document.createElement('canvas');
+  const size = findAspectRatio(aspectRatio || '3:4');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = '#F5F5DC';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#333333';
+  ctx.textAlign = 'center';
+  ctx.font = 'bold 40px "Noto Sans SC", sans-serif';
+  ctx.fillText(title, canvas.width / 2, 90);
+  ctx.font = '16px "Noto Sans SC", sans-serif';
+  ctx.fillStyle = '#999999';
+  ctx.fillText(variant > 0 ? `MOCK · 离线模拟生成 · 候选 ${variant + 1}` : 'MOCK · 离线模拟生成', canvas.width / 2, 125);
+
+  const boxTop = 170;
+  const boxHeight = Math.min(150, (canvas.height - boxTop - 40) / Math.max(headings.length, 1) - 20);
+  headings.forEach((heading, i) => {
+    const y = boxTop + i * (boxHeight + 20);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.strokeStyle = '#B8C6E0';
+    ctx.lineWidth = 2;
+    ctx.fillRect(60, y, canvas.width - 120, boxHeight);
+    ctx.strokeRect(60, y, canvas.width - 120, boxHeight);
+    ctx.fillStyle = '#333333';
+    ctx.textAlign = 'left';
+    ctx.font = 'bold 24px "Noto Sans SC", sans-serif';
+    ctx.fillText(`${i + 1}. ${heading}`, 84, y + boxHeight / 2 + 8);
+  });
+
+  const dataUri = canvas.toDataURL('image/png');
+  renderedText.set(dataUri, { title, headings });
+  if (renderedText.size > RENDERED_TEXT_LIMIT) renderedText.delete(renderedText.keys().next().value!);
+  return dataUri;
+};
+
+const mockText = ({ prompt, task, images }: TextRequest): string => {
+  if (task === 'verify') {
+    const read = fixtures.readBack || renderedText.get(images?.[0] || '') || { title: '', headings: [] };
+    return JSON.stringify(read);
+  }
+  const source = extractSourceText(prompt);
+  if (task === 'module') {
+    return JSON.stringify(mockModuleAction(prompt, source));
+  }
+  return JSON.stringify(task === 'split' ? mockSplit(source) : mockStructure(source));
+};
+
+export const createMockProvider = (): ModelProvider => {
+  installMockTestHook();
+  return {
+    async generateText(req: TextRequest) {
+      const { signal, onText } = req;
+      // 流式输出时延迟分摊到各段上
+      if (!onText) await delay(signal);
+      maybeFail();
+      const text = mockText(req);
+      if (onText) await streamText(text, onText, signal);
+      return { text, usage: { model: 'mock', inputTokens: estimateTokens(req.prompt), outputTokens: estimateTokens(text), images: 0 } };
+    },
+
+    async generateImage({ prompt, aspectRatio, count = 1, signal }) {
+      await delay(signal);
+      maybeFail();
+      return {
+        dataUris: Array.from({ length: count }, (_, i) => renderPlaceholder(prompt, aspectRatio, i)),
+        usage: { model: 'mock', inputTokens: estimateTokens(prompt) * count, outputTokens: 0, images: count }
+      };
+    }
+  };
+};
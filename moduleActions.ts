@@ -0,0 +1,101 @@
+import { ContentModule } from './types';
+import { TextProvider } from './providers';
+import { JsonSchema, LIMITS, parseJsonResponse } from './organizerSchema';
+
+// 结构编辑器中的单模块 AI 操作：以笔记原文为依据改写模块，结果先预览，用户确认后才写回结构
+
+export type ModuleActionType = 'condense' | 'expand' | 'bullets' | 'translate' | 'split' | 'merge';
+
+export interface ModuleActionRequest {
+  action: ModuleActionType;
+  modules: ContentModule[];  // merge 为相邻两个模块，其余为一个
+  originalText: string;
+  language?: string;         // translate 的目标语言
+}
+
+export const MODULE_ACTIONS: { id: ModuleActionType; emoji: string; label: string }[] = [
+  { id: 'condense', emoji: '✂️', label: '精简' },
+  { id: 'expand', emoji: '📖', label: '依据原文扩写' },
+  { id: 'bullets', emoji: '📋', label: '改写为要点' },
+  { id: 'translate', emoji: '🌐', label: '翻译' },
+  { id: 'split', emoji: '➗', label: '拆成两个模块' },
+  { id: 'merge', emoji: '🔗', label: '与下一个模块合并' }
+];
+
+export const TRANSLATE_LANGUAGES = ['English', '中文', '日本語'];
+
+const INSTRUCTIONS: Record<ModuleActionType, (language?: string) => string> = {
+  condense: () => 'Condense the module: keep every key fact but use fewer, shorter phrases.',
+  expand: () => 'Expand the module with important details, data or steps from the source text that the module is missing. Do not invent anything that is not in the source.',
+  bullets: () => 'Rewrite the content as concise bullet points, one point per line, each starting with "- ".',
+  translate: (language) => `Translate the heading and content into ${language || 'English'}. Keep the meaning and the level of detail.`,
+  split: () => 'Split the module into exactly two modules with distinct headings. Together they must cover all of the original content.',
+  merge: () => 'Merge the two modules into exactly one module with a new heading that covers both. Keep all key facts.'
+};
+
+export const expectedModuleCount = (action: ModuleActionType) => (action === 'split' ? 2 : 1);
+
+const moduleActionSchema = (count: number): JsonSchema => ({
+  type: 'object',
+  properties: {
+    modules: {
+      type: 'array',
+      minItems: count,
+      maxItems: count,
+      items: {
+        type: 'object',
+        properties: {
+          heading: { type: 'string', minLength: 1, maxLength: LIMITS.headingMax },
+          content: { type: 'string', minLength: 1, maxLength: LIMITS.contentMax }
+        },
+        required: ['heading', 'content'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['modules'],
+  additionalProperties: false
+});
+
+// 原文放在提示词最后的【原文】标记之后（离线模拟服务依赖这一约定）
+const buildPrompt = ({ action, modules, originalText, language }: ModuleActionRequest, count: number) => `
+# Role
+You are an editor refining one part of a structured visual note.
+
+# Task
+Action: ${action}
+${INSTRUCTIONS[action](language)}
+
+# Rules
+- Use the source text below as the only ground truth.
+- Headings must be at most ${LIMITS.headingMax} characters and content at most ${LIMITS.contentMax} characters.
+- Keep the language of the original modules unless the task is a translation.
+- Return ONLY JSON: {"modules": [{"heading": "...", "content": "..."}]} with exactly ${count} module(s).
+
+# Modules
+${JSON.stringify(modules.map(({ heading, content }) => ({ heading, content })), null, 2)}
+
+【原文】
+${originalText}
+`;
+
+export const runModuleAction = async (provider: TextProvider, request: ModuleActionRequest): Promise<{ heading: string; content: string }[]> => {
+  const count = expectedModuleCount(request.action);
+  const { text } = await provider.generateText({
+    prompt: buildPrompt(request, count),
+    task: 'module',
+    responseSchema: moduleActionSchema(count)
+  });
+
+  const json = parseJsonResponse(text);
+  const modules = (Array.isArray(json?.modules) ? json.modules : [])
+    .map((m: any) => ({
+      heading: typeof m?.heading === 'string' ? m.heading.trim() : '',
+      content: typeof m?.content === 'string' ? m.content.trim() : ''
+    }))
+    .filter((m: { heading: string; content: string }) => m.heading && m.content);
+  if (modules.length !== count) {
+    throw new Error(`AI 返回了 ${modules.length} 个模块，预期 ${count} 个`);
+  }
+  return modules;
+};
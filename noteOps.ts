@@ -0,0 +1,53 @@
+import { NoteUnit, Stage } from './types';
+
+// 拆分确认阶段对笔记单元的纯函数操作；每次操作后重新编号 order
+
+const renumber = (notes: NoteUnit[]): NoteUnit[] =>
+  notes.map((n, i) => n.order === i + 1 ? n : { ...n, order: i + 1 });
+
+export const createEmptyNote = (id: string): NoteUnit => ({
+  id,
+  order: 0,
+  originalText: '',
+  stage: Stage.ReviewSplit,
+  isProcessing: false
+});
+
+export const splitNoteAt = (notes: NoteUnit[], id: string, position: number, newId: string): NoteUnit[] => {
+  const index = notes.findIndex(n => n.id === id);
+  if (index === -1) return notes;
+  const note = notes[index];
+  if (position <= 0 || position >= note.originalText.length) return notes;
+
+  const head: NoteUnit = { ...note, originalText: note.originalText.slice(0, position) };
+  const tail: NoteUnit = { ...createEmptyNote(newId), originalText: note.originalText.slice(position) };
+  return renumber([...notes.slice(0, index), head, tail, ...notes.slice(index + 1)]);
+};
+
+// 本地拆分的片段首尾自带换行，直接拼接即无损；AI 拆分的片段已去除空白，补一个段落分隔
+const joinTexts = (a: string, b: string): string => {
+  if (!a) return b;
+  if (!b) return a;
+  return /\s$/.test(a) || /^\s/.test(b) ? a + b : `${a}\n\n${b}`;
+};
+
+export const mergeWithNext = (notes: NoteUnit[], id: string): NoteUnit[] => {
+  const index = notes.findIndex(n => n.id === id);
+  if (index === -1 || index === notes.length - 1) return notes;
+  const merged: NoteUnit = { ...notes[index], originalText: joinTexts(notes[index].originalText, notes[index + 1].originalText) };
+  return renumber([...notes.slice(0, index), merged, ...notes.slice(index + 2)]);
+};
+
+export const moveNote = (notes: NoteUnit[], from: number, to: number): NoteUnit[] => {
+  if (from === to || from < 0 || to < 0 || from >= notes.length || to >= notes.length) return notes;
+  const next = [...notes];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return renumber(next);
+};
+
+export const removeNote = (notes: NoteUnit[], id: string): NoteUnit[] =>
+  renumber(notes.filter(n => n.id !== id));
+
+export const appendNote = (notes: NoteUnit[], id: string): NoteUnit[] =>
+  renumber([...notes, createEmptyNote(id)]);
@@ -0,0 +1,107 @@
+import { LeftBrainData, SourceSpan } from './types';
+import { spansFromParagraphNumbers } from './sourceTrace';
+
+// 整理大师的结构化输出约束：声明式 JSON Schema + 本地业务规则校验
+
+export type JsonSchema = {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  additionalProperties?: boolean;
+};
+
+export const LIMITS = {
+  titleMax: 40,
+  headingMax: 24,
+  contentMax: 160,
+  modulesMin: 1,
+  modulesMax: 8
+};
+
+export const LEFT_BRAIN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: '1句话精准概括的主题', minLength: 1, maxLength: LIMITS.titleMax },
+    summary_context: { type: 'string', description: '极简的背景摘要' },
+    visual_theme_keywords: { type: 'string', description: 'keywords for background vibe' },
+    modules: {
+      type: 'array',
+      minItems: LIMITS.modulesMin,
+      maxItems: LIMITS.modulesMax,
+      items: {
+        type: 'object',
+        properties: {
+          heading: { type: 'string', minLength: 1, maxLength: LIMITS.headingMax },
+          content: { type: 'string', minLength: 1, maxLength: LIMITS.contentMax },
+          sources: { type: 'array', items: { type: 'integer' }, description: 'Numbers of the [P#] source paragraphs this module is based on' }
+        },
+        required: ['heading', 'content', 'sources'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['title', 'summary_context', 'visual_theme_keywords', 'modules'],
+  additionalProperties: false
+};
+
+// Returns a list of human-readable violations; empty means valid
+export const validateLeftBrain = (json: any): string[] => {
+  const violations: string[] = [];
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    return ['输出必须是一个 JSON 对象'];
+  }
+
+  const title = typeof json.title === 'string' ? json.title.trim() : '';
+  if (!title) violations.push('title 不能为空');
+  else if (title.length > LIMITS.titleMax) violations.push(`title 超过 ${LIMITS.titleMax} 字`);
+
+  if (typeof json.summary_context !== 'string') violations.push('summary_context 必须是字符串');
+  if (typeof json.visual_theme_keywords !== 'string') violations.push('visual_theme_keywords 必须是字符串');
+
+  if (!Array.isArray(json.modules)) {
+    violations.push('modules 必须是数组');
+    return violations;
+  }
+  if (json.modules.length < LIMITS.modulesMin || json.modules.length > LIMITS.modulesMax) {
+    violations.push(`modules 数量必须在 ${LIMITS.modulesMin}-${LIMITS.modulesMax} 之间（当前 ${json.modules.length}）`);
+  }
+
+  json.modules.forEach((m: any, i: number) => {
+    const heading = typeof m?.heading === 'string' ? m.heading.trim() : '';
+    const content = typeof m?.content === 'string' ? m.content.trim() : '';
+    if (!heading) violations.push(`modules[${i}].heading 不能为空`);
+    else if (heading.length > LIMITS.headingMax) violations.push(`modules[${i}].heading 超过 ${LIMITS.headingMax} 字`);
+    if (!content) violations.push(`modules[${i}].content 不能为空`);
+    else if (content.length > LIMITS.contentMax) violations.push(`modules[${i}].content 超过 ${LIMITS.contentMax} 字`);
+  });
+
+  return violations;
+};
+
+export const parseJsonResponse = (responseText: string): any => {
+  const raw = responseText?.replace(/```json/gi, '').replace(/```/g, '').trim() || '';
+  return JSON.parse(raw);
+};
+
+// Normalize a validated response into LeftBrainData (adds module IDs for React rendering,
+// and resolves the cited paragraph numbers into spans of the source text)
+export const toLeftBrainData = (json: any, paragraphs: SourceSpan[] = []): LeftBrainData => ({
+  title: json.title.trim(),
+  summary_context: json.summary_context.trim(),
+  visual_theme_keywords: json.visual_theme_keywords.trim(),
+  modules: json.modules.map((m: any, i: number) => {
+    const sources = spansFromParagraphNumbers(m.sources, paragraphs);
+    return {
+      id: `m${i}`,
+      heading: m.heading.trim(),
+      content: m.content.trim(),
+      ...(sources.length > 0 ? { sources } : {})
+    };
+  })
+});
@@ -0,0 +1,33 @@
+import { NoteDesign, VisualSettings } from './types';
+
+// 配色预设与自定义调色板；colorTheme 仍以文本形式写入设计大师的提示词
+
+export interface PalettePreset {
+  id: string;
+  name: string;
+  colors: string[];
+}
+
+export const PALETTE_PRESETS: PalettePreset[] = [
+  { id: 'macaron', name: 'Macaron Pastel', colors: ['#A7C7E7', '#FFF1B5', '#F8C8DC', '#C1E1C1'] },
+  { id: 'ocean', name: 'Ocean Breeze', colors: ['#0EA5E9', '#67E8F9', '#E0F2FE', '#1E3A8A'] },
+  { id: 'forest', name: 'Forest Calm', colors: ['#166534', '#86EFAC', '#FEF3C7', '#A16207'] },
+  { id: 'sunset', name: 'Warm Sunset', colors: ['#F97316', '#FDBA74', '#FDE68A', '#BE123C'] },
+  { id: 'mono', name: 'Monochrome Ink', colors: ['#111827', '#6B7280', '#E5E7EB', '#FFFFFF'] },
+  { id: 'morandi', name: 'Morandi Muted', colors: ['#B8A9A0', '#9CAFAA', '#D6C7B0', '#8E8D8A'] }
+];
+
+const HEX_RE = /#[0-9a-fA-F]{6}\b/g;
+
+export const formatPalette = (name: string, colors: string[]): string =>
+  `${name} (${colors.map(c => c.toUpperCase()).join(', ')})`;
+
+// Extract hex colors from a free-form colorTheme for the preview swatch
+export const paletteColors = (colorTheme: string): string[] => colorTheme.match(HEX_RE) || [];
+
+// 笔记级覆盖优先，未设置的字段回退到全局设置
+export const resolveVisualSettings = (settings: VisualSettings, design?: NoteDesign): VisualSettings => ({
+  ...settings,
+  colorTheme: design?.colorTheme ?? settings.colorTheme,
+  watermark: design?.watermark ?? settings.watermark
+});
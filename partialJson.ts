@@ -0,0 +1,96 @@
+// 流式输出的 JSON 还没有收完时，先取出其中已经完整的部分：
+// 顶层对象里已闭合的字符串字段，以及顶层数组里已闭合的对象元素。
+// 单遍扫描，不依赖模型输出的缩进与换行；前面的 ```json 之类的包裹会被跳过。
+
+export interface PartialObject {
+  fields: Record<string, string>;
+  items: Record<string, unknown[]>;
+}
+
+export const parsePartialObject = (text: string): PartialObject => {
+  const result: PartialObject = { fields: {}, items: {} };
+  const start = text.indexOf('{');
+  if (start < 0) return result;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let expectKey = false;   // 顶层对象中下一个字符串是键还是值
+  let key: string | null = null;
+  let arrayKey: string | null = null; // 当前所在的顶层数组
+  let itemStart = -1;
+
+  const readString = (end: number): string | null => {
+    try {
+      return JSON.parse(text.slice(stringStart, end + 1));
+    } catch {
+      return null;
+    }
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        if (depth === 1) {
+          const value = readString(i);
+          if (expectKey) {
+            key = value;
+          } else if (key !== null && value !== null) {
+            result.fields[key] = value;
+          }
+        }
+      }
+      continue;
+    }
+
+    switch (ch) {
+      case '"':
+        inString = true;
+        stringStart = i;
+        break;
+      case ':':
+        if (depth === 1) expectKey = false;
+        break;
+      case ',':
+        if (depth === 1) expectKey = true;
+        break;
+      case '{':
+        depth++;
+        if (depth === 1) expectKey = true;
+        if (depth === 3 && arrayKey !== null) itemStart = i;
+        break;
+      case '[':
+        depth++;
+        if (depth === 2 && key !== null) {
+          arrayKey = key;
+          result.items[arrayKey] = [];
+        }
+        break;
+      case '}':
+        if (depth === 3 && arrayKey !== null && itemStart >= 0) {
+          try {
+            result.items[arrayKey].push(JSON.parse(text.slice(itemStart, i + 1)));
+          } catch {
+            // 元素本身不是合法 JSON 时跳过，最终结果仍以完整解析为准
+          }
+          itemStart = -1;
+        }
+        depth--;
+        break;
+      case ']':
+        if (depth === 2) arrayKey = null;
+        depth--;
+        break;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,475 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { createMockProvider, installMockTestHook } from './mockProvider';
+import type { JsonSchema } from './organizerSchema';
+import { estimateTokens } from './tokens';
+import type { AspectRatio } from './types';
+
+// --- PROVIDER INTERFACES ---
+// 整理大师 / 拆分使用文本能力，绘图大师使用图像能力；两者可以分别指向不同的后端
+
+export type TextTask = 'split' | 'organize' | 'verify' | 'module';
+
+export interface TextRequest {
+  prompt: string;
+  task?: TextTask; // Which pipeline step is asking; used by the mock provider to pick fixtures
+  responseSchema?: JsonSchema; // Request structured JSON output matching this schema
+  images?: string[]; // Data URIs attached for multimodal requests (e.g. reading text back from a painted note)
+  signal?: AbortSignal; // 任务被取消时中止请求
+  onText?: (text: string) => void; // 提供时使用流式输出，每收到一段回调目前累计的全文
+}
+
+// 单次调用的用量，用于费用统计
+export interface Usage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+}
+
+export interface TextResult {
+  text: string;
+  usage?: Usage;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio?: AspectRatio;
+  count?: number; // 候选张数，默认 1
+  signal?: AbortSignal;
+}
+
+export interface ImageResult {
+  dataUris: string[];
+  usage?: Usage;
+}
+
+export interface TextProvider {
+  generateText(req: TextRequest): Promise<TextResult>;
+}
+
+export interface ImageProvider {
+  generateImage(req: ImageRequest): Promise<ImageResult>;
+}
+
+export type ModelProvider = TextProvider & ImageProvider;
+
+export type ProviderType = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  type: ProviderType;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible only, e.g. http://localhost:11434/v1
+  apiKey?: string;  // OpenAI-compatible only; Gemini reads the key from env
+}
+
+export interface ProviderSettings {
+  text: ProviderConfig;
+  image: ProviderConfig;
+}
+
+// --- GEMINI DEFAULTS ---
+
+// Default to Gemini 3 Pro Image (preview); override via IMAGE_MODEL env if needed.
+export const IMAGE_MODEL = process.env.IMAGE_MODEL || 'gemini-3-pro-image-preview';
+export const TEXT_MODEL = 'gemini-2.0-flash-exp';
+const IMAGEN_PROXY = process.env.IMAGEN_PROXY || '/api/imagen';
+const TEXT_PROXY = process.env.TEXT_PROXY || '/api/genai';
+const isDev = typeof import.meta !== 'undefined' && (import.meta as any).env?.DEV;
+
+export const resolveGeminiKey = (): string | undefined =>
+  process.env.API_KEY ||
+  process.env.GEMINI_API_KEY ||
+  (import.meta as any)?.env?.VITE_API_KEY ||
+  (import.meta as any)?.env?.VITE_GEMINI_API_KEY;
+
+// MOCK_PROVIDER=1 switches both roles to the offline mock provider by default
+const useMockByDefault = !!process.env.MOCK_PROVIDER && process.env.MOCK_PROVIDER !== '0';
+if (useMockByDefault) installMockTestHook();
+
+export const MOCK_PROVIDER_CONFIG: ProviderConfig = { type: 'mock', model: 'mock' };
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = useMockByDefault
+  ? { text: MOCK_PROVIDER_CONFIG, image: MOCK_PROVIDER_CONFIG }
+  : {
+    text: { type: 'gemini', model: TEXT_MODEL },
+    image: { type: 'gemini', model: IMAGE_MODEL }
+  };
+
+// --- ERRORS ---
+// 抛出的错误附带状态码、Retry-After 和是否被内容拦截，供 retryPolicy 分类
+
+interface ProviderErrorInfo {
+  status?: number;
+  retryAfter?: string;
+  blocked?: boolean;
+}
+
+const providerError = (message: string, info: ProviderErrorInfo): Error => Object.assign(new Error(message), info);
+
+const httpError = async (label: string, res: Response): Promise<Error> =>
+  providerError(`${label} HTTP ${res.status}: ${await res.text()}`, {
+    status: res.status,
+    retryAfter: res.headers.get('retry-after') || undefined
+  });
+
+// 服务没有返回 token 数时按文本估算
+const toUsage = (model: string, prompt: string, output: string, reported: { input?: number; output?: number } = {}, images = 0): Usage => ({
+  model,
+  inputTokens: reported.input ?? estimateTokens(prompt),
+  outputTokens: reported.output ?? estimateTokens(output),
+  images
+});
+
+// --- GEMINI PROVIDER ---
+
+// 被安全策略拦截时 Gemini 正常返回但没有内容，需要单独识别
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+// 图像输出也计入 candidatesTokenCount
+const geminiTokens = (response: any) => ({
+  input: response?.usageMetadata?.promptTokenCount,
+  output: response?.usageMetadata?.candidatesTokenCount
+});
+
+const checkBlocked = (response: any) => {
+  const reason = response?.promptFeedback?.blockReason
+    || BLOCKED_FINISH_REASONS.find(r => r === response?.candidates?.[0]?.finishReason);
+  if (reason) {
+    throw providerError(`Content blocked by Gemini: ${reason}`, { blocked: true });
+  }
+};
+
+const extractInlineImage = (response: any): { data: string, mimeType: string } | null => {
+  const candidates = response?.candidates || [];
+  for (const cand of candidates) {
+    const parts = cand?.content?.parts || [];
+    for (const part of parts) {
+      if (part.inlineData?.data) {
+        return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+      }
+    }
+  }
+  return null;
+};
+
+// Gemini uses an OpenAPI-style schema: upper-case types, int64 limits as strings,
+// no additionalProperties; propertyOrdering keeps the output in declaration order.
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.description ? { description: schema.description } : {}),
+  ...(schema.properties ? {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])),
+    propertyOrdering: Object.keys(schema.properties)
+  } : {}),
+  ...(schema.required ? { required: schema.required } : {}),
+  ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+  ...(schema.minItems !== undefined ? { minItems: String(schema.minItems) } : {}),
+  ...(schema.maxItems !== undefined ? { maxItems: String(schema.maxItems) } : {}),
+  ...(schema.minLength !== undefined ? { minLength: String(schema.minLength) } : {}),
+  ...(schema.maxLength !== undefined ? { maxLength: String(schema.maxLength) } : {})
+});
+
+const toInlineData = (dataUri: string) => {
+  const [meta, data] = dataUri.split(',');
+  return { inlineData: { mimeType: meta.match(/data:([^;]+)/)?.[1] || 'image/png', data } };
+};
+
+const createGeminiProvider = (config: ProviderConfig): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey: resolveGeminiKey() });
+  const model = config.model;
+
+  const fetchImagen = async (prompt: string, aspectRatio: AspectRatio | undefined, count: number, signal?: AbortSignal): Promise<ImageResult> => {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("Missing API_KEY for Imagen request");
+    }
+
+    const useProxyImage = !!IMAGEN_PROXY && !isDev;
+    const url = useProxyImage
+      ? `${IMAGEN_PROXY}/v1beta/models/${model}:predict`
+      : `https://generativelanguage.googleapis.com/v1beta/models/${model}:predict?key=${apiKey}`;
+    const body = {
+      instances: [
+        { prompt }
+      ],
+      parameters: {
+        sampleCount: count,
+        outputMimeType: "image/png",
+        ...(aspectRatio ? { aspectRatio } : {})
+      }
+    };
+
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!res.ok) {
+      throw await httpError('Imagen', res);
+    }
+
+    const json = await res.json();
+    const dataUris = (json?.predictions || [])
+      .map((img: any) => {
+        const data = img?.bytesBase64Encoded || img?.base64Data || img?.data;
+        return data ? `data:${img?.mimeType || 'image/png'};base64,${data}` : null;
+      })
+      .filter(Boolean) as string[];
+    if (dataUris.length === 0) {
+      throw new Error("Imagen response missing image data");
+    }
+    return { dataUris, usage: toUsage(model, prompt, '', { output: 0 }, dataUris.length) };
+  };
+
+  return {
+    async generateText({ prompt, responseSchema, images, signal, onText }) {
+      // 代理会缓冲整个响应，走代理时不流式，结束时一次性回调
+      const useProxy = !!TEXT_PROXY && !isDev;
+      const jsonConfig = responseSchema
+        ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(responseSchema) }
+        : undefined;
+      const parts = [{ text: prompt }, ...(images || []).map(toInlineData)];
+      if (useProxy) {
+        const resp = await fetch(`${TEXT_PROXY}/v1beta/models/${model}:generateContent`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            contents: [{ role: 'user', parts }],
+            ...(jsonConfig ? { generationConfig: jsonConfig } : {})
+          }),
+          signal
+        });
+        if (!resp.ok) {
+          throw await httpError('Gemini', resp);
+        }
+        const jsonResp = await resp.json();
+        checkBlocked(jsonResp);
+        const text = jsonResp?.candidates?.[0]?.content?.parts?.[0]?.text || '';
+        onText?.(text);
+        return { text, usage: toUsage(model, prompt, text, geminiTokens(jsonResp)) };
+      }
+      const params = {
+        model,
+        contents: images?.length ? [{ role: 'user', parts }] : prompt,
+        config: { ...jsonConfig, abortSignal: signal }
+      };
+      if (onText) {
+        let text = '';
+        let last: any;
+        for await (const chunk of await ai.models.generateContentStream(params)) {
+          last = chunk;
+          text += chunk.text || '';
+          onText(text);
+        }
+        checkBlocked(last);
+        return { text, usage: toUsage(model, prompt, text, geminiTokens(last)) };
+      }
+      const res = await ai.models.generateContent(params);
+      checkBlocked(res);
+      const text = res.text || '';
+      return { text, usage: toUsage(model, prompt, text, geminiTokens(res)) };
+    },
+
+    async generateImage({ prompt, aspectRatio, count = 1, signal }) {
+      if (!isDev && model.toLowerCase().includes('imagen')) {
+        return fetchImagen(prompt, aspectRatio, count, signal);
+      }
+
+      // generateContent 每次只返回一张图，多张候选并发请求
+      const generateOne = async () => {
+        const res = await ai.models.generateContent({
+          model,
+          contents: [{ role: 'user', parts: [{ text: prompt }] }],
+          config: {
+            responseModalities: ['TEXT', 'IMAGE'],
+            abortSignal: signal,
+            ...(aspectRatio ? { imageConfig: { aspectRatio } } : {})
+          }
+        });
+
+        checkBlocked(res);
+        const inline = extractInlineImage(res);
+        if (!inline) {
+          throw new Error("No inline image returned");
+        }
+        return { dataUri: `data:${inline.mimeType};base64,${inline.data}`, tokens: geminiTokens(res) };
+      };
+      const results = await Promise.all(Array.from({ length: count }, generateOne));
+      return {
+        dataUris: results.map(r => r.dataUri),
+        usage: results
+          .map(r => toUsage(model, prompt, '', r.tokens, 1))
+          .reduce((sum, u) => ({ ...sum, inputTokens: sum.inputTokens + u.inputTokens, outputTokens: sum.outputTokens + u.outputTokens, images: sum.images + u.images }))
+      };
+    }
+  };
+};
+
+// --- OPENAI-COMPATIBLE PROVIDER ---
+// Works with any server exposing /chat/completions and /images/generations
+// (vLLM, Ollama, LM Studio, LocalAI, Stable Diffusion OpenAI-compatible bridges...)
+
+// 非正方形尺寸因模型而异：gpt-image-1 和 dall-e-3 各有一组，其他模型（dall-e-2、各类兼容后端）只保证支持 1024x1024
+const OPENAI_IMAGE_SIZES: { pattern: RegExp; sizes: Record<AspectRatio, string> }[] = [
+  { pattern: /gpt-image/i, sizes: { '3:4': '1024x1536', '1:1': '1024x1024', '16:9': '1536x1024', '9:16': '1024x1536' } },
+  { pattern: /dall-e-3/i, sizes: { '3:4': '1024x1792', '1:1': '1024x1024', '16:9': '1792x1024', '9:16': '1024x1792' } }
+];
+const OPENAI_FALLBACK_SIZE = '1024x1024';
+
+// OpenAI-style image size closest to the aspect ratio that the model accepts
+const openAIImageSize = (model: string, aspectRatio: AspectRatio): string =>
+  OPENAI_IMAGE_SIZES.find(entry => entry.pattern.test(model))?.sizes[aspectRatio] || OPENAI_FALLBACK_SIZE;
+
+const blobToDataUri = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// chat 接口为 prompt/completion_tokens，图像接口为 input/output_tokens
+const openAITokens = (usage: any) => ({
+  input: usage?.prompt_tokens ?? usage?.input_tokens,
+  output: usage?.completion_tokens ?? usage?.output_tokens
+});
+
+// 逐行读取 SSE 响应，回调每条 data 的内容（忽略结束标记 [DONE]）
+const readSse = async (res: Response, onData: (data: string) => void) => {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+    for (const line of lines) {
+      const data = line.match(/^data:\s?(.*)$/)?.[1]?.trim();
+      if (data && data !== '[DONE]') onData(data);
+    }
+    if (done) return;
+  }
+};
+
+const createOpenAIProvider = (config: ProviderConfig): ModelProvider => {
+  const baseUrl = (config.baseUrl || '').replace(/\/+$/, '');
+
+  const request = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    if (!baseUrl) {
+      throw new Error('OpenAI 兼容服务缺少 Base URL，请在模型设置中填写');
+    }
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!res.ok) {
+      throw await httpError('OpenAI-compatible', res);
+    }
+    return res;
+  };
+
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<any> =>
+    (await request(path, body, signal)).json();
+
+  return {
+    async generateText({ prompt, responseSchema, images, signal, onText }) {
+      const content = images?.length
+        ? [{ type: 'text', text: prompt }, ...images.map(url => ({ type: 'image_url', image_url: { url } }))]
+        : prompt;
+      const body = {
+        model: config.model,
+        messages: [{ role: 'user', content }],
+        ...(responseSchema ? {
+          response_format: { type: 'json_schema', json_schema: { name: 'structured_output', schema: responseSchema } }
+        } : {})
+      };
+      if (onText) {
+        let text = '';
+        let usage: any;
+        await readSse(await request('/chat/completions', { ...body, stream: true }, signal), data => {
+          const chunk = JSON.parse(data);
+          // 部分服务会在最后一段附带 usage
+          usage = chunk?.usage || usage;
+          const delta = chunk?.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onText(text);
+          }
+        });
+        return { text, usage: toUsage(config.model, prompt, text, openAITokens(usage)) };
+      }
+      const json = await post('/chat/completions', body, signal);
+      const text = json?.choices?.[0]?.message?.content || '';
+      return { text, usage: toUsage(config.model, prompt, text, openAITokens(json?.usage)) };
+    },
+
+    async generateImage({ prompt, aspectRatio, count = 1, signal }) {
+      const json = await post('/images/generations', {
+        model: config.model,
+        prompt,
+        n: count,
+        response_format: 'b64_json',
+        ...(aspectRatio ? { size: openAIImageSize(config.model, aspectRatio) } : {})
+      }, signal);
+      const dataUris = await Promise.all((json?.data || []).map(async (img: any) => {
+        if (img?.b64_json) return `data:image/png;base64,${img.b64_json}`;
+        if (img?.url) return blobToDataUri(await (await fetch(img.url, { signal })).blob());
+        return null;
+      }));
+      const images = dataUris.filter(Boolean) as string[];
+      if (images.length === 0) {
+        throw new Error("OpenAI-compatible response missing image data");
+      }
+      return { dataUris: images, usage: toUsage(config.model, prompt, '', openAITokens(json?.usage), images.length) };
+    }
+  };
+};
+
+export const createProvider = (config: ProviderConfig): ModelProvider => {
+  switch (config.type) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+// --- SETTINGS PERSISTENCE ---
+
+const SETTINGS_KEY = 'soulnote.providerSettings';
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_PROVIDER_SETTINGS;
+    const parsed = JSON.parse(raw);
+    return {
+      text: { ...DEFAULT_PROVIDER_SETTINGS.text, ...parsed.text },
+      image: { ...DEFAULT_PROVIDER_SETTINGS.image, ...parsed.image }
+    };
+  } catch (e) {
+    console.warn('Failed to load provider settings', e);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Gemini is the only provider that needs the env/AI Studio key
+export const needsGeminiKey = (settings: ProviderSettings): boolean =>
+  settings.text.type === 'gemini' || settings.image.type === 'gemini';
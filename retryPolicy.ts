@@ -0,0 +1,135 @@
+import type { ModelProvider } from './providers';
+
+// --- ERROR CLASSIFICATION ---
+// 不同的失败需要不同的处理：限流等待后重试，服务端 / 网络抖动指数退避重试，
+// 额度、Key、内容拦截重试也无济于事，直接给出可读原因
+
+export type ErrorKind = 'rate_limit' | 'quota' | 'auth' | 'blocked' | 'server' | 'network' | 'cancelled' | 'unknown';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  retryable: boolean;
+  retryAfterMs?: number; // 服务端要求的等待时间（Retry-After / retryDelay）
+  reason: string;        // 写入 NoteUnit.error 的可读原因
+}
+
+export const CANCELLED_REASON = '已取消';
+
+const REASONS: Record<Exclude<ErrorKind, 'unknown'>, string> = {
+  rate_limit: '请求过于频繁，触发了速率限制，请稍后重试',
+  quota: '额度已用尽，请检查账户配额或计费设置',
+  auth: 'API Key 无效或没有权限，请在模型设置中检查',
+  blocked: '内容被模型的安全策略拦截，请调整文本或绘图指令',
+  server: '模型服务暂时不可用，请稍后重试',
+  network: '网络连接失败，请检查网络或代理设置',
+  cancelled: CANCELLED_REASON
+};
+
+const RETRYABLE: ErrorKind[] = ['rate_limit', 'server', 'network'];
+
+// Retry-After 可以是秒数或 HTTP 日期；Gemini 把等待时间写在错误详情的 retryDelay 里（如 "27s"）
+const parseRetryAfter = (retryAfter: unknown, message: string): number | undefined => {
+  if (typeof retryAfter === 'string' && retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const delay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return delay ? Number(delay[1]) * 1000 : undefined;
+};
+
+const classifyKind = (e: any, message: string, status: number | undefined, retryAfterMs: number | undefined): ErrorKind => {
+  if (e?.name === 'AbortError') return 'cancelled';
+  if (e?.blocked || /content[_ ]policy|PROHIBITED_CONTENT|IMAGE_SAFETY|content blocked/i.test(message)) return 'blocked';
+  // Gemini 的分钟级限流也会提示 "exceeded your current quota"，带等待时间的视为限流
+  const quotaExhausted = retryAfterMs === undefined && /insufficient_quota|exceeded your current quota|billing/i.test(message);
+  if (status === 429) return quotaExhausted ? 'quota' : 'rate_limit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status !== undefined && status >= 500) return 'server';
+  // 没有状态码时（SDK / 代理包装过的错误）按消息判断
+  if (quotaExhausted) return 'quota';
+  if (/RESOURCE_EXHAUSTED|rate.?limit|too many requests/i.test(message)) return 'rate_limit';
+  if (/API[_ ]?key|unauthori[sz]ed|PERMISSION_DENIED/i.test(message)) return 'auth';
+  if (/UNAVAILABLE|overloaded/i.test(message)) return 'server';
+  if (/failed to fetch|fetch failed|network|ECONNRESET|ETIMEDOUT/i.test(message)) return 'network';
+  return 'unknown';
+};
+
+export const classifyError = (e: any): ClassifiedError => {
+  const message = String(e?.message || e || '');
+  const status: number | undefined = typeof e?.status === 'number'
+    ? e.status
+    : Number(message.match(/HTTP (\d{3})/)?.[1]) || undefined;
+  const retryAfterMs = parseRetryAfter(e?.retryAfter, message);
+  const kind = classifyKind(e, message, status, retryAfterMs);
+  return {
+    kind,
+    retryable: RETRYABLE.includes(kind),
+    retryAfterMs,
+    reason: kind === 'unknown' ? message || '未知错误' : REASONS[kind]
+  };
+};
+
+// 写入卡片的失败原因；自动重试过的注明次数
+export const describeError = (e: any): string => {
+  const { reason } = classifyError(e);
+  const attempts = typeof e?.attempts === 'number' ? e.attempts : 1;
+  return attempts > 1 ? `${reason}（已重试 ${attempts - 1} 次）` : reason;
+};
+
+// --- RETRY ---
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+// 服务端要求等待太久时不再占着队列，直接失败
+const MAX_RETRY_AFTER_MS = 60000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+export const withRetry = async <T>(run: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const {
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    signal
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (e: any) {
+      const error = classifyError(e);
+      const tooLong = error.retryAfterMs !== undefined && error.retryAfterMs > MAX_RETRY_AFTER_MS;
+      if (signal?.aborted || !error.retryable || tooLong || attempt >= maxAttempts) {
+        if (attempt > 1 && e && typeof e === 'object') e.attempts = attempt;
+        throw e;
+      }
+      // 指数退避 + full jitter；服务端给了等待时间时以它为准
+      const wait = error.retryAfterMs ?? Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      console.warn(`Request failed (${error.kind}), retrying in ${Math.round(wait)}ms (attempt ${attempt}/${maxAttempts})`, e);
+      await sleep(wait, signal);
+    }
+  }
+};
+
+// 给 provider 的每次调用套上重试策略，所有流水线步骤共用
+export const withRetryPolicy = (provider: ModelProvider, options?: Omit<RetryOptions, 'signal'>): ModelProvider => ({
+  generateText: (req) => withRetry(() => provider.generateText(req), { ...options, signal: req.signal }),
+  generateImage: (req) => withRetry(() => provider.generateImage(req), { ...options, signal: req.signal })
+});
@@ -0,0 +1,91 @@
+import { SessionRecord, SessionSummary } from './types';
+
+// IndexedDB 会话存储：每次运行自动保存为一个会话，刷新页面后可从会话库恢复
+
+const DB_NAME = 'soulnote';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toSummary = (s: SessionRecord): SessionSummary => ({
+  id: s.id,
+  name: s.name,
+  createdAt: s.createdAt,
+  updatedAt: s.updatedAt,
+  stage: s.stage,
+  noteCount: s.notes.length,
+  imageCount: s.notes.filter(n => n.finalImage).length
+});
+
+// Newest first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const all = await run<SessionRecord[]>('readonly', store => store.getAll());
+  return all.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = async (id: string): Promise<SessionRecord | undefined> => {
+  return run<SessionRecord | undefined>('readonly', store => store.get(id));
+};
+
+export const saveSession = async (session: SessionRecord): Promise<void> => {
+  await run('readwrite', store => store.put(session));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) return;
+  await saveSession({ ...session, name, updatedAt: Date.now() });
+};
+
+export const duplicateSession = async (id: string, newId: string): Promise<SessionRecord | undefined> => {
+  const session = await getSession(id);
+  if (!session) return undefined;
+  const now = Date.now();
+  const copy: SessionRecord = { ...session, id: newId, name: `${session.name} (副本)`, createdAt: now, updatedAt: now };
+  await saveSession(copy);
+  return copy;
+};
+
+// 会话默认名称：取原文首行前 20 字
+export const defaultSessionName = (text: string): string => {
+  const firstLine = text.trim().split('\n')[0].replace(/^#+\s*/, '').trim();
+  if (!firstLine) return `未命名会话 ${new Date().toLocaleString('zh-CN')}`;
+  return firstLine.length > 20 ? `${firstLine.substring(0, 20)}…` : firstLine;
+};
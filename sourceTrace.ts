@@ -0,0 +1,91 @@
+import { ContentModule, SourceSpan } from './types';
+
+// 原文溯源：按段落给原文编号交给整理大师，模型返回每个模块引用的段落编号，
+// 本地换算成字符区间，用于高亮原文和统计覆盖率
+
+// 以空行分段；没有空行的多行文本按行分段。返回去掉首尾空白后的区间
+export const splitParagraphs = (text: string): SourceSpan[] => {
+  const collect = (separator: RegExp): SourceSpan[] => {
+    const spans: SourceSpan[] = [];
+    const push = (start: number, end: number) => {
+      while (start < end && /\s/.test(text[start])) start++;
+      while (end > start && /\s/.test(text[end - 1])) end--;
+      if (end > start) spans.push({ start, end });
+    };
+    let last = 0;
+    for (const match of text.matchAll(separator)) {
+      push(last, match.index!);
+      last = match.index! + match[0].length;
+    }
+    push(last, text.length);
+    return spans;
+  };
+
+  const paragraphs = collect(/\n[ \t]*(?:\n[ \t]*)+/g);
+  return paragraphs.length === 1 && text.trim().includes('\n') ? collect(/\n/g) : paragraphs;
+};
+
+// 提示词中的编号形式：[P1] 第一段……
+export const numberParagraphs = (text: string, paragraphs: SourceSpan[]): string =>
+  paragraphs.map((p, i) => `[P${i + 1}] ${text.slice(p.start, p.end)}`).join('\n\n');
+
+// 模型返回的段落编号（从 1 开始）换算为区间，忽略越界和重复的编号
+export const spansFromParagraphNumbers = (numbers: unknown, paragraphs: SourceSpan[]): SourceSpan[] => {
+  if (!Array.isArray(numbers)) return [];
+  const indexes = [...new Set(numbers.map(Number).filter(n => Number.isInteger(n) && n >= 1 && n <= paragraphs.length))];
+  return indexes.sort((a, b) => a - b).map(n => paragraphs[n - 1]);
+};
+
+// 多个模块的来源合并（AI 改写 / 合并模块后沿用原模块的来源）
+export const mergeSources = (modules: ContentModule[]): SourceSpan[] | undefined => {
+  const spans = modules.flatMap(m => m.sources || []);
+  if (spans.length === 0) return undefined;
+  return spans
+    .filter((s, i) => spans.findIndex(t => t.start === s.start && t.end === s.end) === i)
+    .sort((a, b) => a.start - b.start);
+};
+
+const overlaps = (a: SourceSpan, b: SourceSpan) => a.start < b.end && b.start < a.end;
+
+export interface CoverageReport {
+  paragraphs: { span: SourceSpan; covered: boolean }[];
+  uncovered: SourceSpan[];
+  ratio: number;
+}
+
+// 没有任何模块带来源信息时（旧数据或手写结构）返回 null，不做判断
+export const coverageReport = (text: string, modules: ContentModule[]): CoverageReport | null => {
+  const sources = modules.flatMap(m => m.sources || []);
+  if (sources.length === 0) return null;
+  const paragraphs = splitParagraphs(text).map(span => ({ span, covered: sources.some(s => overlaps(s, span)) }));
+  const uncovered = paragraphs.filter(p => !p.covered).map(p => p.span);
+  return {
+    paragraphs,
+    uncovered,
+    ratio: paragraphs.length > 0 ? 1 - uncovered.length / paragraphs.length : 1
+  };
+};
+
+export type SegmentKind = 'plain' | 'highlight' | 'uncovered';
+
+// 把文本切成连续片段，高亮优先于未覆盖标记，用于渲染 <mark>
+export const segmentText = (text: string, highlights: SourceSpan[], uncovered: SourceSpan[] = []): { text: string; kind: SegmentKind }[] => {
+  const bounds = [...new Set([0, text.length, ...[...highlights, ...uncovered].flatMap(s => [s.start, s.end])])]
+    .filter(b => b >= 0 && b <= text.length)
+    .sort((a, b) => a - b);
+
+  const segments: { text: string; kind: SegmentKind }[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const piece = { start: bounds[i], end: bounds[i + 1] };
+    const kind: SegmentKind = highlights.some(s => overlaps(s, piece)) ? 'highlight'
+      : uncovered.some(s => overlaps(s, piece)) ? 'uncovered' : 'plain';
+    const last = segments[segments.length - 1];
+    if (last && last.kind === kind) last.text += text.slice(piece.start, piece.end);
+    else segments.push({ text: text.slice(piece.start, piece.end), kind });
+  }
+  return segments;
+};
+
+// 把笔记内的区间平移到整篇原文中（笔记原文在整篇中的位置未知时返回空）
+export const offsetSpans = (spans: SourceSpan[], offset: number): SourceSpan[] =>
+  offset < 0 ? [] : spans.map(s => ({ start: s.start + offset, end: s.end + offset }));
@@ -0,0 +1,60 @@
+import { LeftBrainData, NoteUnit, StructureVersion } from './types';
+
+// 结构的撤销 / 重做栈（仅保存在内存中）与版本快照（随笔记保存）
+
+export interface UndoStack {
+  past: LeftBrainData[];
+  future: LeftBrainData[];
+  lastEditAt: number; // 最近一次连续输入的时间，用于合并撤销步骤
+}
+
+const MAX_UNDO = 50;
+export const MAX_VERSIONS = 20;
+// 间隔小于该值的连续输入合并为一步撤销，避免逐字撤销
+const COALESCE_MS = 1000;
+
+const EMPTY_STACK: UndoStack = { past: [], future: [], lastEditAt: 0 };
+
+// 在结构被替换前记录旧值；typing 为 true 时与紧邻的输入合并
+export const recordChange = (stack: UndoStack = EMPTY_STACK, previous: LeftBrainData, typing: boolean, now = Date.now()): UndoStack => {
+  if (typing && stack.past.length > 0 && now - stack.lastEditAt < COALESCE_MS) {
+    return { ...stack, future: [], lastEditAt: now };
+  }
+  return { past: [...stack.past, previous].slice(-MAX_UNDO), future: [], lastEditAt: typing ? now : 0 };
+};
+
+export const undoChange = (stack: UndoStack, current: LeftBrainData): { stack: UndoStack; structure: LeftBrainData } | null => {
+  const structure = stack.past[stack.past.length - 1];
+  if (!structure) return null;
+  return { stack: { past: stack.past.slice(0, -1), future: [...stack.future, current], lastEditAt: 0 }, structure };
+};
+
+export const redoChange = (stack: UndoStack, current: LeftBrainData): { stack: UndoStack; structure: LeftBrainData } | null => {
+  const structure = stack.future[stack.future.length - 1];
+  if (!structure) return null;
+  return { stack: { past: [...stack.past, current], future: stack.future.slice(0, -1), lastEditAt: 0 }, structure };
+};
+
+// 结构变化后下游的指令与成图标记为过期
+export const withStructure = (note: NoteUnit, structure: LeftBrainData): Partial<NoteUnit> => ({
+  structure,
+  ...(note.generatedPrompt ? { promptStale: true } : {}),
+  ...(note.finalImage ? { imageStale: true } : {})
+});
+
+// --- VERSIONS ---
+
+const sameStructure = (a: LeftBrainData, b: LeftBrainData) => JSON.stringify(a) === JSON.stringify(b);
+
+export const hasVersion = (versions: StructureVersion[] = [], structure: LeftBrainData) =>
+  versions.some(v => sameStructure(v.structure, structure));
+
+export const addVersion = (versions: StructureVersion[] = [], version: StructureVersion): StructureVersion[] =>
+  [...versions, version].slice(-MAX_VERSIONS);
+
+// 纯文本形式，用于版本对比
+export const structureToText = (data: LeftBrainData): string => [
+  `# ${data.title}`,
+  data.summary_context,
+  ...data.modules.flatMap((m, i) => ['', `## ${i + 1}. ${m.heading}`, ...m.content.split('\n')])
+].join('\n');
@@ -0,0 +1,151 @@
+import { StylePreset } from './types';
+
+// 视觉风格库：内置风格 + 保存在 localStorage 的自定义风格
+
+export const BUILTIN_STYLES: StylePreset[] = [
+  {
+    id: 'healing',
+    name: '可爱手帐 (Cute Journal)',
+    emoji: '📒',
+    desc: 'Hand-drawn grid paper background, pastel markers, dense text notes, cute stickers, kawaii aesthetic, study note style',
+    instructions: '- CUTE JOURNAL: pastel palette, rounded note boxes, dotted arrows, small doodles (stars/hearts), subtle cream grid background.\n- Clean sans-serif handwriting style, high readability.',
+    palette: 'Pastel low-saturation colors (Macaron Blue, Cream Yellow, Soft Pink)',
+    background: 'Light beige (#F5F5DC) with a faint dot grid pattern',
+    fonts: 'Bold Sans-serif or Clean Handwriting (like 楷体 / Heiti)',
+    builtin: true
+  },
+  {
+    id: 'tech',
+    name: '极客蓝图 (Tech Blueprint)',
+    emoji: '📟',
+    desc: 'Dark blue blueprint background, neon cyan lines, dense data visualization, holographic UI elements, futuristic technical schematic',
+    instructions: '- TECH BLUEPRINT: geometric shapes, straight neon cyan lines, dark blue background, circuit motifs, monospaced label style.\n- Add grid overlays and holographic UI hints; crisp thin strokes; keep text high-contrast.',
+    palette: 'Neon cyan (#22D3EE), electric blue (#3B82F6) and white highlights',
+    background: 'Deep navy blueprint (#0B1E3F) with a thin technical grid',
+    fonts: 'Monospaced or geometric Bold Sans-serif (like 黑体)',
+    builtin: true
+  },
+  {
+    id: 'retro',
+    name: '复古海报 (Retro Poster)',
+    emoji: '📰',
+    desc: 'Vintage paper texture, bold typography, densely packed layout, pop art halftone patterns, collage style, infographic poster',
+    instructions: '- RETRO POSTER: bold blocky layout, halftone texture, vibrant red/yellow/blue with aged paper feel, collage starbursts.\n- Use impactful headline typography and chunky separators; keep text clear.',
+    palette: 'Vibrant primary red, mustard yellow and cobalt blue on aged cream',
+    background: 'Aged cream paper (#F3E9D2) with a subtle halftone pattern',
+    fonts: 'Heavy condensed display headings (like 综艺体) with clean Sans-serif body',
+    builtin: true
+  },
+  {
+    id: 'zen',
+    name: '新中式 (Zen Ink)',
+    emoji: '🎋',
+    desc: 'White rice paper texture, minimalist ink wash painting, black calligraphy, vertical layout, red seal, intellectual aesthetic',
+    instructions: '- ZEN INK: rice paper white/cream background, ink wash strokes, sparse bamboo or red seal accents, calligraphic headings.\n- Minimal composition with generous whitespace and crisp black text.',
+    palette: 'Ink black, soft greys and a single vermilion seal red (#C8102E)',
+    background: 'White rice paper (#FAF8F2) with very light fibre texture',
+    fonts: 'Regular script headings (like 楷体) with clean Song/Sans body text',
+    builtin: true
+  },
+  {
+    id: 'clay',
+    name: '3D粘土 (3D Clay)',
+    emoji: '🧸',
+    desc: '3D rendered claymorphism, plasticine texture, soft lighting, rounded edges, playful toy-like look, flat text labels on clay surfaces',
+    instructions: '- 3D CLAY: soft pastel claymorphism, rounded blobs, gentle gradients and shadows, toy-like icons.\n- Text on flat labels with clear sans-serif; avoid noisy details.',
+    palette: 'Soft pastel clay tones (peach, mint, lilac, butter yellow)',
+    background: 'Smooth light pastel backdrop with soft studio shadows',
+    fonts: 'Rounded Bold Sans-serif (like 圆体)',
+    builtin: true
+  }
+];
+
+const STYLES_KEY = 'soulnote.customStyles';
+
+const STYLE_FIELDS: (keyof StylePreset)[] = ['id', 'name', 'emoji', 'desc', 'instructions', 'palette', 'background', 'fonts'];
+
+const isStylePreset = (value: any): value is StylePreset =>
+  !!value && typeof value === 'object' && STYLE_FIELDS.every(f => typeof value[f] === 'string') && !!value.id && !!value.name;
+
+export const loadCustomStyles = (): StylePreset[] => {
+  try {
+    const raw = localStorage.getItem(STYLES_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isStylePreset).map(s => ({ ...s, builtin: false })) : [];
+  } catch (e) {
+    console.warn('Failed to load custom styles', e);
+    return [];
+  }
+};
+
+export const saveCustomStyles = (styles: StylePreset[]) => {
+  localStorage.setItem(STYLES_KEY, JSON.stringify(styles.filter(s => !s.builtin)));
+};
+
+// Unknown ids (e.g. a deleted custom style referenced by an old session) fall back to the first built-in style
+export const findStyle = (styles: StylePreset[], id: string): StylePreset =>
+  styles.find(s => s.id === id) || BUILTIN_STYLES[0];
+
+export const cloneStyle = (style: StylePreset, newId: string): StylePreset => ({
+  ...style,
+  id: newId,
+  name: `${style.name} 副本`,
+  builtin: false
+});
+
+export const createBlankStyle = (id: string): StylePreset => ({
+  ...BUILTIN_STYLES[0],
+  id,
+  name: '我的风格',
+  emoji: '🎨',
+  builtin: false
+});
+
+// 项目包里带来的风格并入自定义风格：同 id 且内容相同的直接复用；
+// id 与现有风格冲突但内容不同时换一个新 id 导入，不覆盖本地修改。idMap 记录换过 id 的风格
+export const mergeBundledStyles = (
+  customStyles: StylePreset[],
+  bundled: unknown[],
+  newId: () => string
+): { styles: StylePreset[]; idMap: Record<string, string> } => {
+  const styles = [...customStyles];
+  const idMap: Record<string, string> = {};
+  const sameStyle = (a: StylePreset, b: StylePreset) => STYLE_FIELDS.every(f => a[f] === b[f]);
+  for (const style of bundled.filter(isStylePreset)) {
+    const existing = [...BUILTIN_STYLES, ...styles].find(s => s.id === style.id);
+    if (existing && sameStyle(existing, style)) continue;
+    const id = existing ? newId() : style.id;
+    if (id !== style.id) idMap[style.id] = id;
+    styles.push({ ...style, id, builtin: false });
+  }
+  return { styles, idMap };
+};
+
+// --- JSON EXPORT / IMPORT ---
+
+const STYLES_FORMAT = 'soulnote-styles';
+
+export const exportStylesJson = (styles: StylePreset[]): Blob => {
+  const payload = {
+    format: STYLES_FORMAT,
+    version: 1,
+    styles: styles.map(({ builtin, ...style }) => style)
+  };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+// Accepts either an exported file or a bare array of styles; ids are reassigned so imports never overwrite
+export const parseStylesJson = (text: string, newId: () => string): StylePreset[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('风格文件不是有效的 JSON');
+  }
+  const list = Array.isArray(parsed) ? parsed : parsed?.format === STYLES_FORMAT ? parsed.styles : null;
+  if (!Array.isArray(list)) throw new Error('无法识别的风格文件格式');
+  const styles = list.filter(isStylePreset);
+  if (styles.length === 0) throw new Error('风格文件中没有有效的风格');
+  return styles.map(s => ({ ...s, id: newId(), builtin: false }));
+};
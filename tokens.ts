@@ -0,0 +1,5 @@
+// 粗略估算文本的 token 数：中日韩字符约 1 token/字，其余约 4 字符/token
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+};
@@ -1,7 +1,14 @@
+// 原文中的一段区间 [start, end)，以所属 NoteUnit.originalText 的字符偏移表示
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
 export interface ContentModule {
   id: string;
   heading: string;
   content: string;
+  sources?: SourceSpan[]; // 模块内容所依据的原文段落
 }
 
 export interface LeftBrainData {
@@ -11,12 +18,42 @@ export interface LeftBrainData {
   modules: ContentModule[];
 }
 
+export type AspectRatio = '3:4' | '1:1' | '16:9' | '9:16';
+
+export type LayoutTemplate = 'bento' | 'timeline' | 'radial' | 'columns' | 'flowchart';
+
 export interface VisualSettings {
   styleId: string;
   colorTheme: string;
   watermark: string;
+  aspectRatio: AspectRatio;
+  layout: LayoutTemplate;
+}
+
+// 单个笔记的配色 / 水印覆盖；未设置的字段沿用全局 VisualSettings
+export type NoteDesign = Partial<Pick<VisualSettings, 'colorTheme' | 'watermark'>>;
+
+// 视觉风格：内置风格与用户自定义风格共用同一数据模型
+export interface StylePreset {
+  id: string;
+  name: string;
+  emoji: string;
+  desc: string;          // 核心美学描述（写入设计大师的提示词）
+  instructions: string;  // 给图像模型的风格指令
+  palette: string;       // 默认配色（未指定色彩主题时使用）
+  background: string;
+  fonts: string;         // 字体建议
+  builtin?: boolean;
 }
 
+export type SplitMode = 'ai' | 'local';
+
+// 绘制方式：AI 图像模型 / 本地 SVG 排版（文字精确）/ 混合（AI 无文字底图 + 本地文字）
+export type RenderMode = 'ai' | 'local' | 'hybrid';
+
+// 单独重跑的阶段：整理（结构）→ 设计（绘图指令）→ 绘制（图片），只替换该阶段结果，下游标记为过期
+export type RegenerateStage = 'organize' | 'design' | 'paint';
+
 export enum Stage {
   Input = 0,
   Splitting = 1,           // New: AI splits long text
@@ -30,6 +67,52 @@ export enum Stage {
   BatchProcessing = 9      // New: Batch processing active
 }
 
+// 成图文字校验结果：模型读回图片文字后与结构化笔记比对
+export interface TextFidelity {
+  score: number;      // 0-1
+  attempts: number;   // 第几轮绘制得到（>1 为低分后的自动重绘）
+  missing: string[];  // 未能正确识别的标题 / 小标题
+}
+
+// 结构版本快照：AI 整理结果自动保存，编辑后的结构可手动保存，随笔记持久化
+export interface StructureVersion {
+  id: string;
+  name: string;
+  createdAt: number;
+  source: 'ai' | 'edit';
+  structure: LeftBrainData;
+}
+
+// 绘制历史中的一张图：每次绘制的全部候选都会保留，finalImage 为其中选中的一张
+export interface NoteImage {
+  id: string;
+  dataUri: string;
+  createdAt: number;
+  renderMode: RenderMode;
+  fidelity?: TextFidelity;
+}
+
+// 用量按阶段汇总：拆分 / 整理 / 文字校验 / 模块 AI 操作 / 绘制
+export type UsageStage = 'split' | 'organize' | 'verify' | 'module' | 'paint';
+
+// 同一阶段、同一模型的调用累计
+export interface UsageEntry {
+  stage: UsageStage;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+}
+
+// 流式整理的实时进度：结构卡片先显示标题，再逐个显示已完整解析的模块（仅内存，不保存）
+export interface OrganizeProgress {
+  tokens: number;           // 已接收的输出 token（估算）
+  attempt: number;          // 第几次请求（修正重试会从头开始接收）
+  title?: string;
+  modules: ContentModule[];
+}
+
 export interface NoteUnit {
   id: string;
   order: number;
@@ -39,11 +122,21 @@ export interface NoteUnit {
   stage: Stage;
   isProcessing: boolean;
   error?: string;
+  errorStage?: RegenerateStage; // 出错（或被取消）的阶段，"只重试失败项"从这里重跑
 
   // Data
+  design?: NoteDesign;
   structure?: LeftBrainData;
+  structureVersions?: StructureVersion[];
   generatedPrompt?: string;
+  promptEdited?: boolean;  // 用户手动修改过绘图指令，配色变化时不再自动覆盖
+  promptStale?: boolean;   // 结构在指令生成后被修改或重新整理，指令可能已过期
+  imageStale?: boolean;    // 结构或指令在绘制后发生变化，成图可能已过期
+  usage?: UsageEntry[];    // 该笔记各阶段的模型用量
+  renderMode?: RenderMode; // 默认 'ai'
   finalImage?: string;
+  fidelity?: TextFidelity;
+  images?: NoteImage[];    // 候选 / 历史图片，按生成时间排列
 }
 
 // --- CHAT TYPES ---
@@ -75,6 +168,30 @@ export interface ChatItem {
   | 'final_result'
   | 'split_review'
   | 'batch_progress'
+  | 'batch_summary'
   | 'confirm_button';
   data?: any; // 组件数据
 }
+
+// --- SESSION TYPES ---
+
+export interface SessionRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+
+  // Workspace snapshot
+  stage: Stage;
+  rawText: string;
+  savedOriginalText: string;
+  notes: NoteUnit[];
+  chatHistory: ChatItem[];
+  visualSettings: VisualSettings;
+  usage?: UsageEntry[]; // 不属于单个笔记的调用（如拆分）
+}
+
+export type SessionSummary = Pick<SessionRecord, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'stage'> & {
+  noteCount: number;
+  imageCount: number;
+};
@@ -0,0 +1,160 @@
+import { RenderMode, UsageEntry, UsageStage } from './types';
+import type { ModelProvider, Usage } from './providers';
+
+// --- USAGE ACCOUNTING ---
+// 每次成功调用的用量按 阶段 + 模型 累计；自动重试中失败的调用不计入
+
+export const USAGE_STAGE_LABELS: Record<UsageStage, string> = {
+  split: '拆分',
+  organize: '整理',
+  verify: '文字校验',
+  module: '模块操作',
+  paint: '绘制'
+};
+
+const accumulate = (entries: UsageEntry[], entry: UsageEntry): UsageEntry[] => {
+  const existing = entries.find(e => e.stage === entry.stage && e.model === entry.model);
+  if (!existing) return [...entries, entry];
+  return entries.map(e => e === existing
+    ? {
+      ...e,
+      calls: e.calls + entry.calls,
+      inputTokens: e.inputTokens + entry.inputTokens,
+      outputTokens: e.outputTokens + entry.outputTokens,
+      images: e.images + entry.images
+    }
+    : e);
+};
+
+export const addUsage = (entries: UsageEntry[] = [], stage: UsageStage, usage: Usage): UsageEntry[] =>
+  accumulate(entries, { stage, calls: 1, ...usage });
+
+export const mergeUsage = (...lists: (UsageEntry[] | undefined)[]): UsageEntry[] =>
+  lists.reduce<UsageEntry[]>((merged, list) => (list || []).reduce(accumulate, merged), []);
+
+// 给 provider 套上用量记录；文本调用按 task 归入阶段，图像调用归入绘制
+export const withUsageMeter = (provider: ModelProvider, onUsage: (stage: UsageStage, usage: Usage) => void): ModelProvider => ({
+  generateText: async (req) => {
+    const result = await provider.generateText(req);
+    if (result.usage) onUsage(req.task || 'organize', result.usage);
+    return result;
+  },
+  generateImage: async (req) => {
+    const result = await provider.generateImage(req);
+    if (result.usage) onUsage('paint', result.usage);
+    return result;
+  }
+});
+
+// --- PRICES ---
+// 单价以人民币计，可在费用面板中修改；图像模型按张计价，输出 token 单价填 0 以免重复计算
+
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+}
+
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.0-flash-exp', inputPerMillion: 0.75, outputPerMillion: 3, perImage: 0 },
+  { model: 'gemini-3-pro-image-preview', inputPerMillion: 15, outputPerMillion: 0, perImage: 1 },
+  { model: 'mock', inputPerMillion: 0, outputPerMillion: 0, perImage: 0 }
+];
+
+const MODEL_PRICES_KEY = 'soulnote.modelPrices';
+
+export const loadModelPrices = (): ModelPrice[] => {
+  try {
+    const raw = localStorage.getItem(MODEL_PRICES_KEY);
+    return raw ? JSON.parse(raw) : DEFAULT_MODEL_PRICES;
+  } catch (e) {
+    console.warn('Failed to load model prices', e);
+    return DEFAULT_MODEL_PRICES;
+  }
+};
+
+export const saveModelPrices = (prices: ModelPrice[]) => {
+  localStorage.setItem(MODEL_PRICES_KEY, JSON.stringify(prices));
+};
+
+// --- COST ---
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+  unpriced: string[]; // 没有设置单价的模型，费用按 0 计
+}
+
+export const costOf = (entry: Pick<UsageEntry, 'model' | 'inputTokens' | 'outputTokens' | 'images'>, prices: ModelPrice[]): number | undefined => {
+  const price = prices.find(p => p.model === entry.model);
+  if (!price) return undefined;
+  return (entry.inputTokens * price.inputPerMillion + entry.outputTokens * price.outputPerMillion) / 1e6
+    + entry.images * price.perImage;
+};
+
+export const totalUsage = (entries: UsageEntry[], prices: ModelPrice[]): UsageTotals =>
+  entries.reduce<UsageTotals>((totals, entry) => {
+    const cost = costOf(entry, prices);
+    return {
+      calls: totals.calls + entry.calls,
+      inputTokens: totals.inputTokens + entry.inputTokens,
+      outputTokens: totals.outputTokens + entry.outputTokens,
+      images: totals.images + entry.images,
+      cost: totals.cost + (cost ?? 0),
+      unpriced: cost === undefined && !totals.unpriced.includes(entry.model) ? [...totals.unpriced, entry.model] : totals.unpriced
+    };
+  }, { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0, unpriced: [] });
+
+export const formatCost = (cost: number): string =>
+  `¥${cost > 0 && cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+// --- PRE-FLIGHT ESTIMATE ---
+
+export interface PaintPlan {
+  renderMode: RenderMode;
+  promptTokens: number; // 发给图像模型的完整指令
+}
+
+export interface PaintEstimateOptions {
+  imageModel: string;
+  textModel: string;
+  candidateCount: number;
+  verify: boolean; // AI 绘制后是否读回文字校验
+}
+
+export interface PaintEstimate {
+  images: number;
+  totals: UsageTotals;
+}
+
+// 读回一张图：图片约 1000 token，加上提示词；输出只有标题和小标题
+const VERIFY_INPUT_TOKENS = 1100;
+const VERIFY_OUTPUT_TOKENS = 80;
+
+// 按一次通过估算：不含校验不过的自动重绘和失败重试，实际费用可能更高
+export const estimatePaintCost = (plans: PaintPlan[], options: PaintEstimateOptions, prices: ModelPrice[]): PaintEstimate => {
+  let entries: UsageEntry[] = [];
+  let images = 0;
+  for (const plan of plans) {
+    if (plan.renderMode === 'local') {
+      images++;
+      continue;
+    }
+    const count = options.candidateCount;
+    images += count;
+    entries = addUsage(entries, 'paint', { model: options.imageModel, inputTokens: plan.promptTokens * count, outputTokens: 0, images: count });
+    if (options.verify && plan.renderMode !== 'hybrid') {
+      entries = addUsage(entries, 'verify', {
+        model: options.textModel,
+        inputTokens: VERIFY_INPUT_TOKENS * count,
+        outputTokens: VERIFY_OUTPUT_TOKENS * count,
+        images: 0
+      });
+    }
+  }
+  return { images, totals: totalUsage(entries, prices) };
+};